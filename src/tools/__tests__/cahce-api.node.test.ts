@@ -0,0 +1,39 @@
+// @vitest-environment node
+import {
+  describe,
+  expect,
+  it,
+} from 'vitest';
+
+import {
+  createCacheStore,
+  storageGetItem,
+} from '../cahce-api';
+
+describe('Cache API Utils outside the browser', () => {
+  it('should not depend on browser storage', () => {
+    expect(typeof caches).toBe('undefined');
+    expect(typeof indexedDB).toBe('undefined');
+    expect(typeof localStorage).toBe('undefined');
+  });
+
+  it('should not fall back to memory shared by every request', async () => {
+    const store = createCacheStore<number>('server');
+
+    await expect(store.set('a', 1)).rejects.toMatchObject({
+      name: 'NotSupportedError',
+    });
+    await expect(storageGetItem('server', 'a')).rejects.toMatchObject({
+      name: 'NotSupportedError',
+    });
+  });
+
+  it('should use memory when picked', async () => {
+    const store = createCacheStore<number>('server', { backends: ['memory'] });
+
+    await store.set('a', 1, { ttl: 60_000 });
+
+    await expect(store.getBackendName()).resolves.toBe('memory');
+    await expect(store.get('a')).resolves.toBe(1);
+  });
+});
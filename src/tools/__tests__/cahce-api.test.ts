@@ -1,4 +1,5 @@
 import {
+  afterEach,
   beforeEach,
   describe,
   expect,
@@ -7,16 +8,25 @@ import {
 } from 'vitest';
 
 import {
+  createCacheStore,
   storageCalculateSize,
   storageClear,
   storageClearByPrefixOrSuffix,
   storageExists,
   storageGetAllKeys,
   storageGetItem,
+  storagePurgeExpired,
   storageRemoveItem,
   storageSetItem,
+  storageSetLimits,
   stringifyBigIntValues,
 } from '../cahce-api';
+import { clearSharedBackends } from '../cahce-api/createCacheStore';
+
+import type {
+  IStorageBackend,
+  IStorageRecord,
+} from '../cahce-api';
 
 // Mock Cache API
 const mockCache = {
@@ -33,8 +43,29 @@ const mockCaches = {
 // @ts-expect-error Mock global caches
 global.caches = mockCaches;
 
+// Backs the mock cache with a Map, for tests that read what they wrote
+const mockCacheEntries = (entries: Map<string, Response>) => {
+  entries.clear();
+  mockCache.put.mockImplementation(
+    async (request: Request, response: Response) => {
+      entries.delete(request.url);
+      entries.set(request.url, response);
+    },
+  );
+  mockCache.match.mockImplementation(async (request: Request) =>
+    entries.get(request.url)?.clone(),
+  );
+  mockCache.delete.mockImplementation(async (request: Request) =>
+    entries.delete(request.url),
+  );
+  mockCache.keys.mockImplementation(async () =>
+    Array.from(entries.keys(), (url) => new Request(url)),
+  );
+};
+
 describe('Cache API Utils', () => {
   beforeEach(() => {
+    clearSharedBackends();
     vi.clearAllMocks();
     mockCache.put.mockReset();
     mockCache.match.mockReset();
@@ -106,6 +137,64 @@ describe('Cache API Utils', () => {
       const request = mockCache.put.mock.calls[0][0];
       expect(request.url).toBe(fullUrl);
     });
+
+    it('should not store an expiry without ttl or expiresAt', async () => {
+      await storageSetItem('testCache', 'testKey', { test: 'data' });
+
+      const response = mockCache.put.mock.calls[0][1];
+      expect(response.headers.get('X-Expires-At')).toBeNull();
+    });
+
+    it('should store the expiry of a ttl', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(1_000);
+
+      await storageSetItem('testCache', 'testKey', 'value', { ttl: 500 });
+      vi.useRealTimers();
+
+      const response = mockCache.put.mock.calls[0][1];
+      expect(response.headers.get('X-Expires-At')).toBe('1500');
+    });
+
+    it('should store an expiresAt date or timestamp', async () => {
+      await storageSetItem('testCache', 'dateKey', 'value', {
+        expiresAt: new Date(2_000),
+      });
+      await storageSetItem('testCache', 'timestampKey', 'value', {
+        expiresAt: 3_000,
+      });
+
+      expect(mockCache.put.mock.calls[0][1].headers.get('X-Expires-At')).toBe(
+        '2000',
+      );
+      expect(mockCache.put.mock.calls[1][1].headers.get('X-Expires-At')).toBe(
+        '3000',
+      );
+    });
+
+    it('should throw when both ttl and expiresAt are given', async () => {
+      await expect(
+        storageSetItem('testCache', 'testKey', 'value', {
+          ttl: 500,
+          expiresAt: 3_000,
+        }),
+      ).rejects.toThrow(TypeError);
+      expect(mockCache.put).not.toHaveBeenCalled();
+    });
+
+    it('should throw for a ttl or expiresAt that is not finite', async () => {
+      for (const options of [
+        { ttl: Number.NaN },
+        { ttl: Number.POSITIVE_INFINITY },
+        { expiresAt: new Date('invalid') },
+        { expiresAt: Number.NaN },
+      ]) {
+        await expect(
+          storageSetItem('testCache', 'testKey', 'value', options),
+        ).rejects.toThrow(TypeError);
+      }
+      expect(mockCache.put).not.toHaveBeenCalled();
+    });
   });
 
   describe('storageGetItem', () => {
@@ -128,6 +217,32 @@ describe('Cache API Utils', () => {
       const result = await storageGetItem('testCache', 'nonExistentKey');
       expect(result).toBeNull();
     });
+
+    it('should return entries that have not expired', async () => {
+      mockCache.match.mockResolvedValue(
+        new Response(JSON.stringify('value'), {
+          headers: { 'X-Expires-At': String(Date.now() + 60_000) },
+        }),
+      );
+
+      const result = await storageGetItem('testCache', 'testKey');
+      expect(result).toBe('value');
+      expect(mockCache.delete).not.toHaveBeenCalled();
+    });
+
+    it('should return null for expired entries and remove them', async () => {
+      mockCache.match.mockResolvedValue(
+        new Response(JSON.stringify('value'), {
+          headers: { 'X-Expires-At': String(Date.now() - 1) },
+        }),
+      );
+
+      const result = await storageGetItem('testCache', 'testKey');
+      expect(result).toBeNull();
+      expect(mockCache.delete).toHaveBeenCalledWith(expect.any(Request));
+      const request = mockCache.delete.mock.calls[0][0];
+      expect(request.url).toBe('https://cache.internal/testKey');
+    });
   });
 
   describe('storageRemoveItem', () => {
@@ -177,6 +292,19 @@ describe('Cache API Utils', () => {
       await storageClearByPrefixOrSuffix('testCache', '', true);
       expect(mockCache.delete).toHaveBeenCalledTimes(4);
     });
+
+    it('should match URL keys by their last path segment', async () => {
+      mockCache.keys.mockResolvedValue([
+        new Request('https://example.com/api/data'),
+        new Request('https://example.com/data/other'),
+      ]);
+
+      await storageClearByPrefixOrSuffix('testCache', 'data', true);
+
+      expect(mockCache.delete).toHaveBeenCalledTimes(1);
+      const request = mockCache.delete.mock.calls[0][0];
+      expect(request.url).toBe('https://example.com/api/data');
+    });
   });
 
   describe('storageExists', () => {
@@ -196,6 +324,149 @@ describe('Cache API Utils', () => {
       const result = await storageExists('testCache', 'nonExistentKey');
       expect(result).toBe(false);
     });
+
+    it('should return false for expired entries and remove them', async () => {
+      mockCache.match.mockResolvedValue(
+        new Response(null, {
+          headers: { 'X-Expires-At': String(Date.now() - 1) },
+        }),
+      );
+
+      const result = await storageExists('testCache', 'testKey');
+      expect(result).toBe(false);
+      expect(mockCache.delete).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('storagePurgeExpired', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should remove only expired entries', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(10_000);
+      const createResponse = (expiresAt?: number) =>
+        new Response('"value"', {
+          headers:
+            expiresAt === undefined
+              ? {}
+              : { 'X-Expires-At': String(expiresAt) },
+        });
+
+      mockCache.keys.mockResolvedValue([
+        new Request('https://cache.internal/expired'),
+        new Request('https://cache.internal/fresh'),
+        new Request('https://cache.internal/forever'),
+        new Request('https://cache.internal/expiredNow'),
+      ]);
+      mockCache.match
+        .mockResolvedValueOnce(createResponse(5_000))
+        .mockResolvedValueOnce(createResponse(20_000))
+        .mockResolvedValueOnce(createResponse())
+        .mockResolvedValueOnce(createResponse(10_000));
+
+      const result = await storagePurgeExpired('testCache');
+
+      expect(result).toBe(2);
+      expect(
+        mockCache.delete.mock.calls.map(([request]) => request.url),
+      ).toEqual([
+        'https://cache.internal/expired',
+        'https://cache.internal/expiredNow',
+      ]);
+    });
+
+    it('should handle empty cache', async () => {
+      mockCache.keys.mockResolvedValue([]);
+
+      const result = await storagePurgeExpired('testCache');
+      expect(result).toBe(0);
+    });
+  });
+
+  describe('storageSetLimits', () => {
+    const entries = new Map<string, Response>();
+
+    beforeEach(() => {
+      mockCacheEntries(entries);
+    });
+
+    afterEach(() => {
+      storageSetLimits('testCache');
+    });
+
+    it('should evict the least recently written entries over maxEntries', async () => {
+      const onEvict = vi.fn();
+      storageSetLimits('testCache', { maxEntries: 2, onEvict });
+
+      await storageSetItem('testCache', 'key1', 1);
+      await storageSetItem('testCache', 'key2', 2);
+      await storageSetItem('testCache', 'key3', 3);
+
+      expect(await storageGetAllKeys('testCache')).toEqual(['key2', 'key3']);
+      expect(onEvict).toHaveBeenCalledTimes(1);
+      expect(onEvict).toHaveBeenCalledWith({
+        key: 'key1',
+        size: 1,
+        accessedAt: expect.any(Number),
+      });
+    });
+
+    it('should count reads as use', async () => {
+      storageSetLimits('testCache', { maxEntries: 2 });
+
+      await storageSetItem('testCache', 'key1', 1);
+      await storageSetItem('testCache', 'key2', 2);
+      await storageGetItem('testCache', 'key1');
+      await storageSetItem('testCache', 'key3', 3);
+
+      expect(await storageGetAllKeys('testCache')).toEqual(['key1', 'key3']);
+    });
+
+    it('should evict entries over maxBytes', async () => {
+      const onEvict = vi.fn();
+      storageSetLimits('testCache', { maxBytes: 10, onEvict });
+
+      await storageSetItem('testCache', 'key1', 'aaa'); // 5 bytes
+      await storageSetItem('testCache', 'key2', 'bbb'); // 5 bytes
+      await storageSetItem('testCache', 'key3', 'cccccc'); // 8 bytes
+
+      expect(await storageGetAllKeys('testCache')).toEqual(['key3']);
+      expect(onEvict.mock.calls.map(([entry]) => entry.key)).toEqual([
+        'key1',
+        'key2',
+      ]);
+      expect(await storageCalculateSize('testCache')).toBe(8);
+    });
+
+    it('should size entries from their headers without reading bodies', async () => {
+      storageSetLimits('testCache', { maxBytes: 10 });
+      await storageSetItem('testCache', 'key1', 'aaa');
+      const text = vi.spyOn(Response.prototype, 'text');
+      const arrayBuffer = vi.spyOn(Response.prototype, 'arrayBuffer');
+
+      await storageSetItem('testCache', 'key2', 'bbb');
+      await storageCalculateSize('testCache');
+
+      expect(mockCache.put.mock.calls[0][1].headers.get('X-Value-Size')).toBe(
+        '5',
+      );
+      expect(text).not.toHaveBeenCalled();
+      expect(arrayBuffer).not.toHaveBeenCalled();
+      text.mockRestore();
+      arrayBuffer.mockRestore();
+    });
+
+    it('should not evict without limits', async () => {
+      storageSetLimits('testCache', { maxEntries: 1 });
+      storageSetLimits('testCache');
+
+      await storageSetItem('testCache', 'key1', 1);
+      await storageSetItem('testCache', 'key2', 2);
+
+      expect(await storageGetAllKeys('testCache')).toEqual(['key1', 'key2']);
+    });
   });
 
   describe('storageGetAllKeys', () => {
@@ -332,4 +603,458 @@ describe('Cache API Utils', () => {
       expect(result).toBeGreaterThan(0);
     });
   });
+
+  describe('createCacheStore', () => {
+    const entries = new Map<string, Response>();
+
+    interface IUser {
+      id: number;
+      name: string;
+    }
+
+    beforeEach(() => {
+      mockCacheEntries(entries);
+    });
+
+    it('should open the cache once and reuse the handle', async () => {
+      const store = createCacheStore<IUser>('users');
+
+      await store.set('john', { id: 1, name: 'John' });
+      await store.get('john');
+      await store.has('john');
+      await store.keys();
+
+      expect(mockCaches.open).toHaveBeenCalledTimes(1);
+      expect(mockCaches.open).toHaveBeenCalledWith('users');
+    });
+
+    it('should open the cache again after a failed open', async () => {
+      const store = createCacheStore('users');
+      mockCaches.open.mockRejectedValueOnce(new Error('Failed to open cache'));
+
+      await expect(store.keys()).rejects.toThrow('Failed to open cache');
+      await expect(store.keys()).resolves.toEqual([]);
+      expect(mockCaches.open).toHaveBeenCalledTimes(2);
+    });
+
+    it('should get, set, check and delete values', async () => {
+      const store = createCacheStore<IUser>('users');
+
+      await store.set('john', { id: 1, name: 'John' });
+
+      expect(store.cacheName).toBe('users');
+      await expect(store.get('john')).resolves.toEqual({ id: 1, name: 'John' });
+      await expect(store.has('john')).resolves.toBe(true);
+      await expect(store.delete('john')).resolves.toBe(true);
+      await expect(store.delete('john')).resolves.toBe(false);
+      await expect(store.get('john')).resolves.toBeNull();
+      await expect(store.has('john')).resolves.toBe(false);
+    });
+
+    it('should list keys and entries without expired values', async () => {
+      const store = createCacheStore<IUser>('users');
+
+      await store.set('john', { id: 1, name: 'John' });
+      await store.set('jane', { id: 2, name: 'Jane' });
+      await store.set('old', { id: 3, name: 'Old' }, { expiresAt: 0 });
+
+      await expect(store.keys()).resolves.toEqual(['john', 'jane', 'old']);
+      await expect(store.entries()).resolves.toEqual([
+        ['john', { id: 1, name: 'John' }],
+        ['jane', { id: 2, name: 'Jane' }],
+      ]);
+      await expect(store.keys()).resolves.toEqual(['john', 'jane']);
+    });
+
+    it('should clear values and report their size', async () => {
+      const store = createCacheStore<string>('users');
+
+      await store.set('a', 'aaa');
+      await store.set('b', 'bbbbbb');
+
+      await expect(store.size('a')).resolves.toBe(5);
+      await expect(store.size()).resolves.toBe(13);
+      await store.clear();
+      await expect(store.keys()).resolves.toEqual([]);
+      await expect(store.size()).resolves.toBe(0);
+    });
+
+    it('should apply limits to the cache', async () => {
+      const onEvict = vi.fn();
+      const store = createCacheStore<number>('users', {
+        maxEntries: 1,
+        onEvict,
+      });
+
+      await store.set('a', 1);
+      await store.set('b', 2);
+      store.setLimits();
+      await store.set('c', 3);
+
+      await expect(store.keys()).resolves.toEqual(['b', 'c']);
+      expect(onEvict).toHaveBeenCalledTimes(1);
+      expect(onEvict).toHaveBeenCalledWith(expect.objectContaining({ key: 'a' }));
+    });
+
+    it('should evict every entry once on concurrent writes', async () => {
+      const onEvict = vi.fn();
+      const store = createCacheStore<number>('users', {
+        maxEntries: 1,
+        onEvict,
+      });
+
+      await store.set('a', 1);
+      await Promise.all([store.set('b', 2), store.set('c', 3)]);
+      store.setLimits();
+
+      await expect(store.keys()).resolves.toEqual(['c']);
+      expect(onEvict.mock.calls.map(([entry]) => entry.key)).toEqual([
+        'a',
+        'b',
+      ]);
+    });
+
+    it('should return keys as they were set', async () => {
+      const store = createCacheStore<number>('users');
+
+      await store.set('my key', 1);
+      await store.set('ünï', 2);
+      await store.set('100%', 3);
+      await store.set('https://example.com/api/data', 4);
+
+      await expect(store.keys()).resolves.toEqual([
+        'my key',
+        'ünï',
+        '100%',
+        'https://example.com/api/data',
+      ]);
+      await expect(storageGetAllKeys('users')).resolves.toEqual([
+        'my key',
+        'ünï',
+        '100%',
+        'data',
+      ]);
+    });
+
+    it('should share the cache with the storage helpers', async () => {
+      const store = createCacheStore<IUser>('users');
+
+      await storageSetItem('users', 'john', { id: 1, name: 'John' });
+
+      await expect(store.get('john')).resolves.toEqual({ id: 1, name: 'John' });
+    });
+  });
+
+  describe('storage backends', () => {
+    const unavailable = (name: string) => async () => {
+      throw new DOMException(`${name} is not available`, 'NotSupportedError');
+    };
+
+    beforeEach(() => {
+      localStorage.clear();
+      sessionStorage.clear();
+    });
+
+    afterEach(() => {
+      // @ts-expect-error Mock global caches
+      global.caches = mockCaches;
+    });
+
+    it('should resolve the backend once for every helper call', async () => {
+      await storageSetItem('users', 'a', 1);
+      await storageGetItem('users', 'a');
+      await storageExists('users', 'a');
+
+      expect(mockCaches.open).toHaveBeenCalledTimes(1);
+    });
+
+    it('should use the Cache API when it is available', async () => {
+      const store = createCacheStore('users');
+
+      await expect(store.getBackendName()).resolves.toBe('cache');
+    });
+
+    it('should fall back when the Cache API is missing', async () => {
+      // @ts-expect-error Remove global caches
+      global.caches = undefined;
+      const store = createCacheStore<number>('users');
+
+      await store.set('a', 1);
+
+      await expect(store.getBackendName()).resolves.toBe('localStorage');
+      await expect(store.get('a')).resolves.toBe(1);
+      expect(localStorage.getItem('cache-store:users:a')).not.toBeNull();
+    });
+
+    it('should fall back when opening the cache is not allowed', async () => {
+      mockCaches.open.mockRejectedValueOnce(
+        new DOMException('Insecure origin', 'SecurityError'),
+      );
+      const store = createCacheStore('users', {
+        backends: ['cache', 'memory'],
+      });
+
+      await expect(store.getBackendName()).resolves.toBe('memory');
+    });
+
+    it('should keep stores of one web storage apart', async () => {
+      const users = createCacheStore<string>('users', {
+        backends: ['sessionStorage'],
+      });
+      const posts = createCacheStore<string>('posts', {
+        backends: ['sessionStorage'],
+      });
+
+      await users.set('a', 'user');
+      await users.set('old', 'expired', { expiresAt: 0 });
+      await posts.set('a', 'post');
+
+      await expect(users.get('a')).resolves.toBe('user');
+      await expect(users.get('old')).resolves.toBeNull();
+      await expect(posts.keys()).resolves.toEqual(['a']);
+      await posts.clear();
+      await expect(users.keys()).resolves.toEqual(['a']);
+    });
+
+    it('should keep stores with a separator in their name apart', async () => {
+      const parent = createCacheStore<number>('a', {
+        backends: ['localStorage'],
+      });
+      const child = createCacheStore<number>('a:b', {
+        backends: ['localStorage'],
+      });
+
+      await child.set('x', 1);
+
+      await expect(parent.keys()).resolves.toEqual([]);
+      await parent.clear();
+      await expect(child.get('x')).resolves.toBe(1);
+    });
+
+    it('should ignore web storage items that are not records', async () => {
+      localStorage.setItem('users:foo', 'app data');
+      localStorage.setItem('cache-store:users:text', 'not json');
+      localStorage.setItem('cache-store:users:json', '{"value":1}');
+      const store = createCacheStore('users', { backends: ['localStorage'] });
+
+      await expect(store.keys()).resolves.toEqual([]);
+      await expect(store.get('text')).resolves.toBeNull();
+      await expect(store.get('json')).resolves.toBeNull();
+      await store.clear();
+      expect(localStorage.getItem('users:foo')).toBe('app data');
+    });
+
+    describe('indexedDB', () => {
+      const records = new Map<string, unknown>();
+
+      // Requests of the stub succeed on the next microtask
+      const createRequest = <T>(result: T) => {
+        const request = { result } as IDBRequest<T>;
+        queueMicrotask(() => request.onsuccess?.(new Event('success')));
+        return request;
+      };
+
+      const objectStore = {
+        get: (key: string) => createRequest(records.get(key)),
+        put: (record: unknown, key: string) => {
+          records.set(key, record);
+          return createRequest(key);
+        },
+        count: (key: string) => createRequest(records.has(key) ? 1 : 0),
+        delete: (key: string) => createRequest(records.delete(key)),
+        getAllKeys: () => createRequest(Array.from(records.keys())),
+      };
+
+      const database = {
+        transaction: () => ({ objectStore: () => objectStore }),
+      };
+
+      const open = vi.fn(() => createRequest(database));
+
+      beforeEach(() => {
+        records.clear();
+        open.mockClear();
+        // @ts-expect-error Remove global caches
+        global.caches = undefined;
+        global.indexedDB = { open } as unknown as IDBFactory;
+      });
+
+      afterEach(() => {
+        // @ts-expect-error Remove the indexedDB stub
+        global.indexedDB = undefined;
+      });
+
+      it('should reuse one connection for every helper call', async () => {
+        await storageSetItem('idb', 'a', { id: 1 });
+        await expect(storageGetItem('idb', 'a')).resolves.toEqual({ id: 1 });
+        await expect(storageGetAllKeys('idb')).resolves.toEqual(['a']);
+        clearSharedBackends();
+        await expect(storageExists('idb', 'a')).resolves.toBe(true);
+
+        expect(open).toHaveBeenCalledTimes(1);
+        expect(open).toHaveBeenCalledWith('cache-store:idb', 1);
+      });
+
+      it('should fall back when IndexedDB cannot be used', async () => {
+        open.mockImplementationOnce(() => {
+          throw new DOMException('Private browsing', 'InvalidStateError');
+        });
+        const store = createCacheStore('idb-private', {
+          backends: ['indexedDB', 'memory'],
+        });
+
+        await expect(store.getBackendName()).resolves.toBe('memory');
+      });
+
+      it('should not fall back on other IndexedDB errors', async () => {
+        open.mockImplementationOnce(() => {
+          throw new DOMException('Disk full', 'QuotaExceededError');
+        });
+        const store = createCacheStore('idb-full', {
+          backends: ['indexedDB', 'memory'],
+        });
+
+        await expect(store.getBackendName()).rejects.toMatchObject({
+          name: 'QuotaExceededError',
+        });
+      });
+    });
+
+    it('should share memory stores of the same name', async () => {
+      const first = createCacheStore<number>('memory-shared', {
+        backends: ['memory'],
+      });
+      const second = createCacheStore<number>('memory-shared', {
+        backends: ['memory'],
+      });
+
+      await first.set('a', 1);
+
+      await expect(second.get('a')).resolves.toBe(1);
+      await second.clear();
+    });
+
+    it('should accept custom backend factories', async () => {
+      const records = new Map<string, IStorageRecord>();
+      const backend: IStorageBackend = {
+        name: 'custom',
+        get: async (key) => records.get(key),
+        set: async (key, record) => {
+          records.set(key, record);
+        },
+        delete: async (key) => records.delete(key),
+        keys: async () => Array.from(records.keys()),
+      };
+      const store = createCacheStore<number>('users', {
+        backends: [unavailable('first'), async () => backend],
+      });
+
+      await store.set('a', 1);
+
+      await expect(store.getBackendName()).resolves.toBe('custom');
+      expect(records.get('a')?.value).toBe('1');
+    });
+
+    it('should reject when no backend is available', async () => {
+      const store = createCacheStore('users', {
+        backends: [unavailable('first'), unavailable('second')],
+      });
+
+      await expect(store.get('a')).rejects.toMatchObject({
+        name: 'NotSupportedError',
+      });
+    });
+  });
+
+  describe('value codec', () => {
+    const entries = new Map<string, Response>();
+    const records = new Map<string, IStorageRecord>();
+    const recordBackend = async (): Promise<IStorageBackend> => ({
+      name: 'records',
+      get: async (key) => records.get(key),
+      set: async (key, record) => {
+        records.set(key, record);
+      },
+      delete: async (key) => records.delete(key),
+      keys: async () => Array.from(records.keys()),
+    });
+
+    beforeEach(() => {
+      mockCacheEntries(entries);
+      records.clear();
+    });
+
+    it('should round-trip the types plain JSON loses', async () => {
+      const store = createCacheStore('rich', { backends: [recordBackend] });
+      const value = {
+        createdAt: new Date(1_000),
+        invalidDate: new Date(Number.NaN),
+        lookup: new Map<unknown, unknown>([
+          ['a', 1],
+          [2, new Set([3n])],
+        ]),
+        tags: new Set(['news']),
+        id: 9007199254740993n,
+        missing: undefined,
+        numbers: [Number.NaN, Number.POSITIVE_INFINITY, -0, undefined],
+        pattern: /^a.+b$/gi,
+        bytes: new Uint8Array([1, 2, 255]),
+        floats: new Float64Array([0.5, Number.NaN]),
+        bigs: new BigInt64Array([-1n]),
+      };
+
+      await store.set('value', value);
+      const result = await store.get('value');
+
+      expect(result).toStrictEqual(value);
+      expect(Object.is((result as typeof value).numbers[2], -0)).toBe(true);
+      expect(records.get('value')?.version).toBe(1);
+    });
+
+    it('should keep plain objects that look like tagged values', async () => {
+      const store = createCacheStore('rich', { backends: [recordBackend] });
+      const value = { __type__: 'Date', value: 'not a date' };
+
+      await store.set('value', value);
+
+      await expect(store.get('value')).resolves.toStrictEqual(value);
+    });
+
+    it('should store plain values as plain JSON', async () => {
+      const store = createCacheStore('rich', { backends: [recordBackend] });
+
+      await store.set('value', { id: 1, name: 'John' });
+
+      expect(records.get('value')?.value).toBe('{"id":1,"name":"John"}');
+    });
+
+    it('should store the format version with Cache API entries', async () => {
+      await storageSetItem('testCache', 'testKey', { at: new Date(1_000) });
+
+      const response = mockCache.put.mock.calls[0][1];
+      expect(response.headers.get('X-Storage-Version')).toBe('1');
+      await expect(storageGetItem('testCache', 'testKey')).resolves.toEqual({
+        at: new Date(1_000),
+      });
+    });
+
+    it('should read plain JSON written before the codec', async () => {
+      const legacy = { id: '123', at: { __type__: 'Date', value: 'x' } };
+      mockCache.match.mockResolvedValue(new Response(JSON.stringify(legacy)));
+
+      await expect(storageGetItem('testCache', 'testKey')).resolves.toEqual(
+        legacy,
+      );
+    });
+
+    it('should reject values of an unknown format version', async () => {
+      mockCache.match.mockResolvedValue(
+        new Response('"value"', { headers: { 'X-Storage-Version': '2' } }),
+      );
+
+      await expect(storageGetItem('testCache', 'testKey')).rejects.toThrow(
+        'Unsupported storage format version 2',
+      );
+    });
+  });
 });
@@ -0,0 +1,140 @@
+import { createUnavailableError } from './utils';
+
+import type {
+  IStorageBackend,
+  IStorageRecordMetadata,
+} from './types';
+
+/**
+ * Response header carrying the expiry timestamp of an entry
+ */
+const EXPIRES_AT_HEADER = 'X-Expires-At';
+
+/**
+ * Response header carrying the time an entry was written
+ */
+const ACCESSED_AT_HEADER = 'X-Accessed-At';
+
+/**
+ * Response header carrying the version of the value format
+ */
+const VERSION_HEADER = 'X-Storage-Version';
+
+/**
+ * Response header carrying the size of the value in bytes
+ */
+const SIZE_HEADER = 'X-Value-Size';
+
+const CACHE_KEY_ORIGIN = 'https://cache.internal/';
+
+/**
+ * Internal helper to create a consistent cache key URL
+ * Using an absolute URL ensures keys work across different page URLs
+ */
+const createCacheKey = (key: string): string => {
+  if (key.startsWith('http://') || key.startsWith('https://')) {
+    return key;
+  }
+  return `${CACHE_KEY_ORIGIN}${key}`;
+};
+
+/**
+ * Internal helper to read the key back from a cached request. The URL parser
+ * percent-encodes keys, e.g. spaces and non-ASCII characters, so they are
+ * decoded to match the keys of the other backends
+ */
+const getKeyFromRequest = (request: Request): string => {
+  if (!request.url.startsWith(CACHE_KEY_ORIGIN)) {
+    return request.url;
+  }
+  const key = request.url.slice(CACHE_KEY_ORIGIN.length);
+  try {
+    return decodeURIComponent(key);
+  } catch {
+    // A literal `%` that is not an escape sequence
+    return key;
+  }
+};
+
+/**
+ * Internal helper to read the metadata of a record from the response headers
+ */
+const getMetadata = (response: Response): IStorageRecordMetadata => {
+  const expiresAt = response.headers.get(EXPIRES_AT_HEADER);
+  const version = response.headers.get(VERSION_HEADER);
+  const size = response.headers.get(SIZE_HEADER);
+  const metadata: IStorageRecordMetadata = {
+    accessedAt: Number(response.headers.get(ACCESSED_AT_HEADER)) || 0,
+  };
+  if (expiresAt !== null) {
+    metadata.expiresAt = Number(expiresAt);
+  }
+  if (version !== null) {
+    metadata.version = Number(version);
+  }
+  if (size !== null) {
+    metadata.size = Number(size);
+  }
+  return metadata;
+};
+
+/**
+ * Backend on the Cache API, records are stored as JSON responses with their
+ * metadata in headers
+ */
+export const createCacheApiBackend = async (
+  storeName: string,
+): Promise<IStorageBackend> => {
+  if (typeof caches === 'undefined') {
+    throw createUnavailableError('The Cache API is not available');
+  }
+  const cache = await caches.open(storeName);
+
+  return {
+    name: 'cache',
+    get: async (key) => {
+      const response = await cache.match(new Request(createCacheKey(key)));
+      if (!response) {
+        return undefined;
+      }
+      return {
+        ...getMetadata(response),
+        value: await response.clone().text(),
+      };
+    },
+    getMetadata: async (key) => {
+      const response = await cache.match(new Request(createCacheKey(key)));
+      if (!response) {
+        return undefined;
+      }
+      const metadata = getMetadata(response);
+      // Entries written before the size header are measured once per read
+      metadata.size ??= (await response.clone().arrayBuffer()).byteLength;
+      return metadata;
+    },
+    set: async (key, record) => {
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        [ACCESSED_AT_HEADER]: String(record.accessedAt),
+      };
+      if (record.expiresAt !== undefined) {
+        headers[EXPIRES_AT_HEADER] = String(record.expiresAt);
+      }
+      if (record.version !== undefined) {
+        headers[VERSION_HEADER] = String(record.version);
+      }
+      if (record.size !== undefined) {
+        headers[SIZE_HEADER] = String(record.size);
+      }
+      const response = new Response(record.value, { headers });
+      await cache.put(new Request(createCacheKey(key)), response);
+    },
+    delete: async (key) => {
+      return await cache.delete(new Request(createCacheKey(key)));
+    },
+    keys: async () => {
+      const requests = await cache.keys();
+      return requests.map(getKeyFromRequest);
+    },
+  };
+};
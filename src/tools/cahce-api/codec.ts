@@ -0,0 +1,165 @@
+import { isObject } from '../../assertion';
+
+/**
+ * Version of the format written by `encodeValue`, stored with every record
+ */
+export const CODEC_VERSION = 1;
+
+const TYPE_KEY = '__type__';
+
+const numberArrays = {
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+};
+
+const bigintArrays = {
+  BigInt64Array,
+  BigUint64Array,
+};
+
+const typedArrays = { ...numberArrays, ...bigintArrays };
+
+type TTypedArrayName = keyof typeof typedArrays;
+
+const isNumberArrayName = (name: string): name is keyof typeof numberArrays => {
+  return Object.prototype.hasOwnProperty.call(numberArrays, name);
+};
+
+const isBigintArrayName = (name: string): name is keyof typeof bigintArrays => {
+  return Object.prototype.hasOwnProperty.call(bigintArrays, name);
+};
+
+const getTypedArrayName = (value: unknown): TTypedArrayName | undefined => {
+  return (Object.keys(typedArrays) as TTypedArrayName[]).find(
+    (name) => value instanceof typedArrays[name],
+  );
+};
+
+const tag = (type: string, value: unknown = null) => ({
+  [TYPE_KEY]: type,
+  value,
+});
+
+/**
+ * Replacer that tags the values JSON cannot represent. Dates are read from the
+ * holder since `toJSON` has already turned them into strings
+ */
+function encodeReplacer(
+  this: Record<string, unknown>,
+  key: string,
+  value: unknown,
+) {
+  const raw = this[key];
+
+  if (raw instanceof Date) {
+    const time = raw.getTime();
+    return tag('Date', Number.isNaN(time) ? null : raw.toISOString());
+  }
+  if (value === undefined) {
+    return tag('undefined');
+  }
+  if (typeof value === 'bigint') {
+    return tag('BigInt', value.toString());
+  }
+  if (
+    typeof value === 'number' &&
+    (!Number.isFinite(value) || Object.is(value, -0))
+  ) {
+    return tag('Number', Object.is(value, -0) ? '-0' : String(value));
+  }
+  if (value instanceof Map) {
+    return tag('Map', Array.from(value));
+  }
+  if (value instanceof Set) {
+    return tag('Set', Array.from(value));
+  }
+  if (value instanceof RegExp) {
+    return tag('RegExp', [value.source, value.flags]);
+  }
+  const typedArrayName = getTypedArrayName(value);
+  if (typedArrayName) {
+    return tag(typedArrayName, Array.from(value as ArrayLike<number | bigint>));
+  }
+  // Plain objects that look like a tag are stored as entries
+  if (isObject(value) && TYPE_KEY in value) {
+    return tag('Object', Object.entries(value));
+  }
+  return value;
+}
+
+/**
+ * Internal helper that restores the tagged values of a parsed value
+ */
+const decodeTagged = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(decodeTagged);
+  }
+  if (!isObject(value)) {
+    return value;
+  }
+  if (typeof value[TYPE_KEY] !== 'string') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, decodeTagged(entry)]),
+    );
+  }
+
+  const type = value[TYPE_KEY];
+  const payload = decodeTagged(value.value);
+
+  switch (type) {
+    case 'undefined':
+      return undefined;
+    case 'Number':
+      return Number(payload);
+    case 'BigInt':
+      return BigInt(payload as string);
+    case 'Date':
+      return new Date((payload as string | null) ?? Number.NaN);
+    case 'Map':
+      return new Map(payload as [unknown, unknown][]);
+    case 'Set':
+      return new Set(payload as unknown[]);
+    case 'RegExp': {
+      const [source, flags] = payload as [string, string];
+      return new RegExp(source, flags);
+    }
+    case 'Object':
+      return Object.fromEntries(payload as [string, unknown][]);
+    default:
+      if (isNumberArrayName(type)) {
+        return new numberArrays[type](payload as number[]);
+      }
+      if (isBigintArrayName(type)) {
+        return new bigintArrays[type](payload as bigint[]);
+      }
+      throw new TypeError(`Unknown stored type "${type}"`);
+  }
+};
+
+/**
+ * Internal helper that serializes a value, keeping the Dates, Maps, Sets,
+ * BigInts, RegExps, typed arrays, `undefined`, NaN, Infinity and -0 that plain
+ * JSON loses. Functions and symbols are dropped like in `JSON.stringify`
+ */
+export const encodeValue = (value: unknown): string => {
+  return JSON.stringify(value, encodeReplacer);
+};
+
+/**
+ * Internal helper that parses a value serialized with the given version of
+ * the format, values without one are plain JSON written before the codec
+ */
+export const decodeValue = <T>(text: string, version?: number): T => {
+  if (version !== undefined && version !== CODEC_VERSION) {
+    throw new TypeError(`Unsupported storage format version ${version}`);
+  }
+  const parsed: unknown = JSON.parse(text);
+  return (version === undefined ? parsed : decodeTagged(parsed)) as T;
+};
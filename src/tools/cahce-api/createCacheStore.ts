@@ -0,0 +1,447 @@
+import { isBrowser } from '../dom';
+import { createCacheApiBackend } from './cacheBackend';
+import {
+  CODEC_VERSION,
+  decodeValue,
+  encodeValue,
+} from './codec';
+import { createIndexedDBBackend } from './indexedDBBackend';
+import { createMemoryBackend } from './memoryBackend';
+import {
+  createUnavailableError,
+  getExpiresAt,
+  getRecordSize,
+  getValueSize,
+  isExpired,
+  isUnavailableError,
+} from './utils';
+import { createWebStorageBackend } from './webStorageBackend';
+
+import type {
+  ICacheStore,
+  ICacheStoreOptions,
+  IStorageBackend,
+  IStorageEvictedEntry,
+  IStorageLimits,
+  IStorageRecord,
+  IStorageRecordMetadata,
+  IStorageSetItemOptions,
+  TStorageBackendFactory,
+  TStorageBackendName,
+} from './types';
+
+const backendFactories: Record<TStorageBackendName, TStorageBackendFactory> = {
+  cache: createCacheApiBackend,
+  indexedDB: createIndexedDBBackend,
+  localStorage: createWebStorageBackend('localStorage'),
+  sessionStorage: createWebStorageBackend('sessionStorage'),
+  memory: createMemoryBackend,
+};
+
+/**
+ * Internal helper that returns the default backends. On the server a memory
+ * store would be shared by every request, so it is only used when picked
+ */
+const getDefaultBackends = (): TStorageBackendName[] => {
+  const backends: TStorageBackendName[] = [
+    'cache',
+    'indexedDB',
+    'localStorage',
+  ];
+  return isBrowser() ? [...backends, 'memory'] : backends;
+};
+
+/**
+ * Backends resolved for a list of backend names, keyed by the cache name and
+ * that list. Stores with custom factories resolve their own
+ */
+const sharedBackends = new Map<string, Promise<IStorageBackend>>();
+
+/**
+ * Internal helper that forgets the resolved backends, so the next call
+ * resolves them again, e.g. between tests that swap the storage globals
+ */
+export const clearSharedBackends = (): void => {
+  sharedBackends.clear();
+};
+
+/**
+ * Limits of the size-bounded caches, keyed by cache name
+ */
+const cacheLimits = new Map<string, IStorageLimits>();
+
+/**
+ * Reads since the page loaded, keyed by cache name and key. Only tracked for
+ * caches with limits, older entries fall back to their write time
+ */
+const accessTimes = new Map<string, Map<string, number>>();
+
+/**
+ * The last eviction of each cache, keyed by cache name. Evictions of a cache
+ * run one after another, so concurrent writes never evict the same entry twice
+ */
+const evictionQueues = new Map<string, Promise<void>>();
+
+let lastAccessTime = 0;
+
+/**
+ * Internal helper that returns strictly increasing access times, so entries
+ * used within the same millisecond keep their order
+ */
+const nextAccessTime = (): number => {
+  lastAccessTime = Math.max(Date.now(), lastAccessTime + 1);
+  return lastAccessTime;
+};
+
+/**
+ * Internal helper to set or remove the limits of a cache
+ */
+const setCacheLimits = (cacheName: string, limits?: IStorageLimits) => {
+  if (limits?.maxBytes === undefined && limits?.maxEntries === undefined) {
+    cacheLimits.delete(cacheName);
+    accessTimes.delete(cacheName);
+    return;
+  }
+  cacheLimits.set(cacheName, limits);
+  if (!accessTimes.has(cacheName)) {
+    accessTimes.set(cacheName, new Map());
+  }
+};
+
+/**
+ * Internal helper that creates the first available backend, failures other
+ * than an unavailable storage are thrown right away
+ */
+const resolveBackend = async (
+  cacheName: string,
+  backends: (TStorageBackendName | TStorageBackendFactory)[],
+): Promise<IStorageBackend> => {
+  for (const backend of backends) {
+    const factory =
+      typeof backend === 'function' ? backend : backendFactories[backend];
+    try {
+      return await factory(cacheName);
+    } catch (error) {
+      if (!isUnavailableError(error)) {
+        throw error;
+      }
+    }
+  }
+  throw createUnavailableError(
+    `No storage backend available for "${cacheName}"`,
+  );
+};
+
+/**
+ * Internal helper that reads the metadata of a key, backends without
+ * `getMetadata` read the whole record
+ */
+const readMetadata = (
+  backend: IStorageBackend,
+  key: string,
+): Promise<IStorageRecordMetadata | undefined> => {
+  return backend.getMetadata ? backend.getMetadata(key) : backend.get(key);
+};
+
+/**
+ * Internal helper that removes the least recently used entries until the
+ * cache is within its limits. Only the metadata of the entries is read
+ */
+const evictLeastRecentlyUsed = async (
+  backend: IStorageBackend,
+  cacheName: string,
+  limits: IStorageLimits,
+): Promise<void> => {
+  const {
+    maxBytes = Number.POSITIVE_INFINITY,
+    maxEntries = Number.POSITIVE_INFINITY,
+    onEvict,
+  } = limits;
+  const keys = await backend.keys();
+  if (limits.maxBytes === undefined && keys.length <= maxEntries) {
+    return;
+  }
+
+  const times = accessTimes.get(cacheName);
+  const entries: IStorageEvictedEntry[] = [];
+  let totalBytes = 0;
+
+  for (const key of keys) {
+    const metadata = await readMetadata(backend, key);
+    if (!metadata) continue;
+    const size = getRecordSize(metadata);
+    const accessedAt = times?.get(key) ?? metadata.accessedAt;
+    entries.push({ key, size, accessedAt });
+    totalBytes += size;
+  }
+
+  entries.sort((a, b) => a.accessedAt - b.accessedAt);
+  let entryCount = entries.length;
+
+  for (const entry of entries) {
+    if (entryCount <= maxEntries && totalBytes <= maxBytes) break;
+    const isDeleted = await backend.delete(entry.key);
+    times?.delete(entry.key);
+    entryCount--;
+    totalBytes -= entry.size;
+    if (isDeleted) {
+      onEvict?.(entry);
+    }
+  }
+};
+
+/**
+ * Internal helper that runs an eviction once the previous eviction of the
+ * same cache is done
+ */
+const queueEviction = (
+  cacheName: string,
+  evict: () => Promise<void>,
+): Promise<void> => {
+  const previous = evictionQueues.get(cacheName) ?? Promise.resolve();
+  const current = previous.then(evict);
+  const settled = current.catch(() => {});
+  evictionQueues.set(cacheName, settled);
+  settled.then(() => {
+    if (evictionQueues.get(cacheName) === settled) {
+      evictionQueues.delete(cacheName);
+    }
+  });
+  return current;
+};
+
+/**
+ * Create a store bound to one cache
+ *
+ * The backend is created on first use and reused by every call, and by every
+ * store and helper of the same cache name and backend names. By default
+ * the Cache API is used, falling back to IndexedDB, localStorage and, in the
+ * browser, memory where it is not available (insecure origins, private
+ * browsing). On the server memory has to be picked with `backends`, since it is
+ * shared by every request.
+ * Values are stored as JSON that keeps Dates, Maps, Sets, BigInts, RegExps,
+ * typed arrays, `undefined`, NaN and Infinity, entries written as plain JSON
+ * by older versions are still read. Expired entries are treated as missing and
+ * removed when read.
+ *
+ * @template V - The type of the stored values
+ * @param cacheName The name of the cache
+ * @param options Optional `backends` in order of preference, and `maxBytes`,
+ * `maxEntries` and `onEvict` to evict least recently used entries on write.
+ * Limits apply to every store and helper of the same cache name
+ * @returns The store with `get`, `set`, `has`, `delete`, `keys`, `entries`,
+ * `clear` and `size`
+ *
+ * @example
+ * const users = createCacheStore<IUser>('users', { maxEntries: 100 });
+ *
+ * await users.set('john', { id: 1, name: 'John' }, { ttl: 60_000 });
+ * const john = await users.get('john'); // IUser | null
+ * const all = await users.entries(); // [string, IUser][]
+ *
+ * // Session-only data, kept in memory where sessionStorage is not available
+ * const drafts = createCacheStore('drafts', {
+ *   backends: ['sessionStorage', 'memory'],
+ * });
+ */
+export const createCacheStore = <V = unknown>(
+  cacheName: string,
+  options: ICacheStoreOptions = {},
+): ICacheStore<V> => {
+  const { backends = getDefaultBackends(), ...limits } = options;
+  const sharedKey = backends.every((backend) => typeof backend === 'string')
+    ? JSON.stringify([cacheName, ...backends])
+    : undefined;
+  let ownBackend: Promise<IStorageBackend> | undefined;
+
+  if (limits.maxBytes !== undefined || limits.maxEntries !== undefined) {
+    setCacheLimits(cacheName, limits);
+  }
+
+  const setBackend = (backendPromise?: Promise<IStorageBackend>) => {
+    if (sharedKey === undefined) {
+      ownBackend = backendPromise;
+    } else if (backendPromise) {
+      sharedBackends.set(sharedKey, backendPromise);
+    } else {
+      sharedBackends.delete(sharedKey);
+    }
+  };
+
+  // A failed backend is retried on the next call
+  const openBackend = () => {
+    const current =
+      sharedKey === undefined ? ownBackend : sharedBackends.get(sharedKey);
+    if (current) {
+      return current;
+    }
+    const backendPromise = resolveBackend(cacheName, backends).catch(
+      (error: unknown) => {
+        setBackend(undefined);
+        throw error;
+      },
+    );
+    setBackend(backendPromise);
+    return backendPromise;
+  };
+
+  /**
+   * Reads a key, expired entries are removed and count as missing
+   */
+  const readRecord = async (backend: IStorageBackend, key: string) => {
+    const record = await backend.get(key);
+    if (record && isExpired(record)) {
+      await backend.delete(key);
+      accessTimes.get(cacheName)?.delete(key);
+      return undefined;
+    }
+    return record;
+  };
+
+  const parseValue = (record: IStorageRecord): V => {
+    return decodeValue<V>(record.value, record.version);
+  };
+
+  const get = async (key: string): Promise<V | null> => {
+    const backend = await openBackend();
+    const record = await readRecord(backend, key);
+    if (!record) {
+      return null;
+    }
+    accessTimes.get(cacheName)?.set(key, nextAccessTime());
+    return parseValue(record);
+  };
+
+  const set = async (
+    key: string,
+    value: V,
+    setOptions: IStorageSetItemOptions = {},
+  ): Promise<void> => {
+    const expiresAt = getExpiresAt(setOptions);
+    const backend = await openBackend();
+    const encoded = encodeValue(value);
+    const record: IStorageRecord = {
+      value: encoded,
+      version: CODEC_VERSION,
+      accessedAt: nextAccessTime(),
+      size: getValueSize(encoded),
+    };
+    if (expiresAt !== undefined) {
+      record.expiresAt = expiresAt;
+    }
+    await backend.set(key, record);
+
+    const currentLimits = cacheLimits.get(cacheName);
+    if (currentLimits) {
+      accessTimes.get(cacheName)?.set(key, record.accessedAt);
+      await queueEviction(cacheName, () =>
+        evictLeastRecentlyUsed(backend, cacheName, currentLimits),
+      );
+    }
+  };
+
+  const has = async (key: string): Promise<boolean> => {
+    const backend = await openBackend();
+    return (await readRecord(backend, key)) !== undefined;
+  };
+
+  const remove = async (key: string): Promise<boolean> => {
+    const backend = await openBackend();
+    accessTimes.get(cacheName)?.delete(key);
+    return await backend.delete(key);
+  };
+
+  const keys = async (): Promise<string[]> => {
+    const backend = await openBackend();
+    return await backend.keys();
+  };
+
+  const entries = async (): Promise<[string, V][]> => {
+    const backend = await openBackend();
+    const result: [string, V][] = [];
+
+    for (const key of await backend.keys()) {
+      const record = await readRecord(backend, key);
+      if (record) {
+        result.push([key, parseValue(record)]);
+      }
+    }
+
+    return result;
+  };
+
+  const clear = async (): Promise<void> => {
+    const backend = await openBackend();
+    for (const key of await backend.keys()) {
+      await backend.delete(key);
+    }
+    accessTimes.get(cacheName)?.clear();
+  };
+
+  const clearByPrefixOrSuffix = async (
+    str: string,
+    isPrefix = true,
+  ): Promise<void> => {
+    const backend = await openBackend();
+    for (const key of await backend.keys()) {
+      const isMatch = isPrefix ? key.startsWith(str) : key.endsWith(str);
+      if (isMatch) {
+        await backend.delete(key);
+        accessTimes.get(cacheName)?.delete(key);
+      }
+    }
+  };
+
+  const purgeExpired = async (): Promise<number> => {
+    const backend = await openBackend();
+    let purgedCount = 0;
+
+    for (const key of await backend.keys()) {
+      const metadata = await readMetadata(backend, key);
+      if (metadata && isExpired(metadata)) {
+        await backend.delete(key);
+        accessTimes.get(cacheName)?.delete(key);
+        purgedCount++;
+      }
+    }
+
+    return purgedCount;
+  };
+
+  const size = async (key?: string): Promise<number> => {
+    const backend = await openBackend();
+
+    if (key) {
+      const metadata = await readMetadata(backend, key);
+      return metadata ? getRecordSize(metadata) : 0;
+    }
+
+    let totalSize = 0;
+    for (const storedKey of await backend.keys()) {
+      const metadata = await readMetadata(backend, storedKey);
+      if (metadata) {
+        totalSize += getRecordSize(metadata);
+      }
+    }
+
+    return totalSize;
+  };
+
+  return {
+    cacheName,
+    getBackendName: async () => (await openBackend()).name,
+    get,
+    set,
+    has,
+    delete: remove,
+    keys,
+    entries,
+    clear,
+    clearByPrefixOrSuffix,
+    purgeExpired,
+    size,
+    setLimits: (newLimits?: IStorageLimits) => {
+      setCacheLimits(cacheName, newLimits);
+    },
+  };
+};
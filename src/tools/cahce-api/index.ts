@@ -1,68 +1,93 @@
+import { createCacheStore } from './createCacheStore';
+
+import type {
+  IStorageLimits,
+  IStorageSetItemOptions,
+} from './types';
+
+export type {
+  ICacheStore,
+  ICacheStoreOptions,
+  IStorageBackend,
+  IStorageEvictedEntry,
+  IStorageLimits,
+  IStorageRecord,
+  IStorageRecordMetadata,
+  IStorageSetItemOptions,
+  TStorageBackendFactory,
+  TStorageBackendName,
+} from './types';
+export { createCacheStore } from './createCacheStore';
+export { stringifyBigIntValues } from './utils';
+
 /**
- * stringifyBigIntValues - A replacer function for JSON.stringify that converts BigInt values to strings.
- *
- * @param {string} _key - The key of the property being stringified.
- * @param {unknown} value - The value of the property being stringified.
- * @returns {unknown} - The value of the property being stringified.
+ * Internal helper that keeps the key format of the helpers, URL keys are
+ * reduced to their last path segment
  */
-
-export const stringifyBigIntValues = (_key: string, value: unknown) => {
-  return typeof value === 'bigint' ? value.toString() : value;
+const getLastPathSegment = (key: string): string => {
+  return key.slice(key.lastIndexOf('/') + 1);
 };
 
 /**
- * Internal helper to create a consistent cache key URL
- * Using an absolute URL ensures keys work across different page URLs
+ * Bound the size of a cache, least recently used entries are evicted on write
+ *
+ * Reads with `storageGetItem` count as use. Reads are tracked in memory, so
+ * after a reload the entries are ordered by their write time until read again.
+ *
+ * @param cacheName The name of the cache
+ * @param limits Optional `maxBytes`, `maxEntries` and `onEvict` callback, no
+ * limits make the cache unbounded again
+ *
+ * @example
+ * storageSetLimits('api-responses', {
+ *   maxBytes: 5 * 1024 * 1024,
+ *   maxEntries: 200,
+ *   onEvict: ({ key, size }) => console.info(`Evicted ${key} (${size} bytes)`),
+ * });
  */
-const createCacheKey = (key: string): string => {
-  if (key.startsWith('http://') || key.startsWith('https://')) {
-    return key;
-  }
-  return `https://cache.internal/${key}`;
+export const storageSetLimits = (
+  cacheName: string,
+  limits?: IStorageLimits,
+): void => {
+  createCacheStore(cacheName).setLimits(limits);
 };
 
 /**
  * Set a value in Cache API
+ *
+ * Caches with limits, see `storageSetLimits`, evict their least recently used
+ * entries after the write.
+ *
  * @param cacheName The name of the cache
  * @param key The key under which the value will be stored
  * @param value The value to store
- * @throws Will throw an error if the operation fails
+ * @param options Optional `ttl` in milliseconds or `expiresAt`, stored in the
+ * `X-Expires-At` header of the entry. Entries without one never expire
+ * @throws Will throw an error if the operation fails, or a TypeError when both
+ * `ttl` and `expiresAt` are given or the expiry is not a finite time
  */
 export const storageSetItem = async (
   cacheName: string,
   key: string,
   value: unknown,
+  options?: IStorageSetItemOptions,
 ): Promise<void> => {
-  const cache = await caches.open(cacheName);
-  const serializedValue = JSON.stringify(value, stringifyBigIntValues);
-  const response = new Response(serializedValue, {
-    headers: {
-      'Content-Type': 'application/json',
-    },
-  });
-  const cacheKey = createCacheKey(key);
-  await cache.put(new Request(cacheKey), response);
+  await createCacheStore(cacheName).set(key, value, options);
 };
 
 /**
  * Get a value from Cache API
  * @param cacheName The name of the cache
  * @param key The key of the value to retrieve
- * @returns The retrieved value, or null if not found
+ * @returns The retrieved value, or null if not found or expired. Expired
+ * entries are removed
  * @throws Will throw an error if the operation fails
  */
 export const storageGetItem = async <T>(
   cacheName: string,
   key: string,
 ): Promise<T | null> => {
-  const cache = await caches.open(cacheName);
-  const cacheKey = createCacheKey(key);
-  const response = await cache.match(new Request(cacheKey));
-  if (!response) {
-    return null;
-  }
-  const serializedValue = await response.text();
-  return JSON.parse(serializedValue) as T;
+  return await createCacheStore<T>(cacheName).get(key);
 };
 
 /**
@@ -76,9 +101,7 @@ export const storageRemoveItem = async (
   cacheName: string,
   key: string,
 ): Promise<boolean> => {
-  const cache = await caches.open(cacheName);
-  const cacheKey = createCacheKey(key);
-  return await cache.delete(new Request(cacheKey));
+  return await createCacheStore(cacheName).delete(key);
 };
 
 /**
@@ -87,15 +110,16 @@ export const storageRemoveItem = async (
  * @throws Will throw an error if the operation fails
  */
 export const storageClear = async (cacheName: string): Promise<void> => {
-  const cache = await caches.open(cacheName);
-  const keys = await cache.keys();
-  for (const request of keys) {
-    await cache.delete(request);
-  }
+  await createCacheStore(cacheName).clear();
 };
 
 /**
  * Clear values from Cache API by prefix or suffix
+ *
+ * Keys are matched by their last path segment, so `'data'` matches
+ * `https://example.com/api/data`. `ICacheStore.clearByPrefixOrSuffix` matches
+ * the full key instead.
+ *
  * @param cacheName The name of the cache
  * @param str The prefix or suffix to match keys against
  * @param isPrefix If true, match keys that start with `str`. If false, match keys that end with `str`.
@@ -106,13 +130,11 @@ export const storageClearByPrefixOrSuffix = async (
   str: string,
   isPrefix = true,
 ): Promise<void> => {
-  const cache = await caches.open(cacheName);
-  const keys = await cache.keys();
-  for (const request of keys) {
-    const urlParts = request.url.split('/');
-    const key = urlParts[urlParts.length - 1] || '';
-    if ((isPrefix && key.startsWith(str)) || (!isPrefix && key.endsWith(str))) {
-      await cache.delete(request);
+  const store = createCacheStore(cacheName);
+  for (const key of await store.keys()) {
+    const segment = getLastPathSegment(key);
+    if (isPrefix ? segment.startsWith(str) : segment.endsWith(str)) {
+      await store.delete(key);
     }
   }
 };
@@ -121,34 +143,41 @@ export const storageClearByPrefixOrSuffix = async (
  * Check if a key exists in Cache API
  * @param cacheName The name of the cache
  * @param key The key to check
- * @returns True if the key exists, false otherwise
+ * @returns True if the key exists and has not expired, false otherwise.
+ * Expired entries are removed
  * @throws Will throw an error if the operation fails
  */
 export const storageExists = async (
   cacheName: string,
   key: string,
 ): Promise<boolean> => {
-  const cache = await caches.open(cacheName);
-  const cacheKey = createCacheKey(key);
-  const response = await cache.match(new Request(cacheKey));
-  return response !== undefined;
+  return await createCacheStore(cacheName).has(key);
+};
+
+/**
+ * Remove all expired values from Cache API
+ * @param cacheName The name of the cache
+ * @returns The number of removed entries
+ * @throws Will throw an error if the operation fails
+ */
+export const storagePurgeExpired = async (
+  cacheName: string,
+): Promise<number> => {
+  return await createCacheStore(cacheName).purgeExpired();
 };
 
 /**
  * Get all keys from Cache API
  * @param cacheName The name of the cache
- * @returns An array of all keys in Cache API
+ * @returns An array of all keys in Cache API, URL keys as their last path
+ * segment. Use `ICacheStore.keys` for the full keys
  * @throws Will throw an error if the operation fails
  */
 export const storageGetAllKeys = async (
   cacheName: string,
 ): Promise<string[]> => {
-  const cache = await caches.open(cacheName);
-  const keys = await cache.keys();
-  return keys.map((request) => {
-    const urlParts = request.url.split('/');
-    return urlParts[urlParts.length - 1] || '';
-  });
+  const keys = await createCacheStore(cacheName).keys();
+  return keys.map(getLastPathSegment);
 };
 
 /**
@@ -164,30 +193,5 @@ export const storageCalculateSize = async (
   cacheName: string,
   cacheKey?: string,
 ): Promise<number> => {
-  const cache = await caches.open(cacheName);
-
-  if (cacheKey) {
-    const normalizedKey = createCacheKey(cacheKey);
-    const response = await cache.match(new Request(normalizedKey));
-    if (response) {
-      const clonedResponse = response.clone();
-      const body = await clonedResponse.arrayBuffer();
-      return body.byteLength;
-    }
-    return 0;
-  }
-
-  const keys = await cache.keys();
-  let totalSize = 0;
-
-  for (const request of keys) {
-    const response = await cache.match(request);
-    if (response) {
-      const clonedResponse = response.clone();
-      const body = await clonedResponse.arrayBuffer();
-      totalSize += body.byteLength;
-    }
-  }
-
-  return totalSize;
+  return await createCacheStore(cacheName).size(cacheKey);
 };
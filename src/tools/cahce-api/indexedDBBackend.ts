@@ -0,0 +1,127 @@
+import { createUnavailableError } from './utils';
+
+import type {
+  IStorageBackend,
+  IStorageRecord,
+} from './types';
+
+const OBJECT_STORE_NAME = 'entries';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Errors of `indexedDB.open` where the storage is not available: opaque
+ * origins throw a SecurityError, private browsing in Firefox fails with an
+ * InvalidStateError. Other errors, e.g. quota or version errors, are real
+ * failures and do not fall back to another backend
+ */
+const UNAVAILABLE_ERROR_NAMES = ['SecurityError', 'InvalidStateError'];
+
+/**
+ * Open connections, keyed by store name. Reused by every backend of the store
+ * instead of opening a connection per call
+ */
+const databases = new Map<string, Promise<IDBDatabase>>();
+
+/**
+ * Opens the database of a store
+ */
+const openDatabase = async (storeName: string): Promise<IDBDatabase> => {
+  try {
+    const request = indexedDB.open(`cache-store:${storeName}`, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(OBJECT_STORE_NAME);
+    };
+    return await promisifyRequest(request);
+  } catch (error) {
+    if (
+      error instanceof DOMException &&
+      UNAVAILABLE_ERROR_NAMES.includes(error.name)
+    ) {
+      throw createUnavailableError(
+        `IndexedDB "${storeName}" could not be opened`,
+      );
+    }
+    throw error;
+  }
+};
+
+/**
+ * Returns the open connection of a store, the connection is closed and opened
+ * again on the next call when another tab upgrades the database
+ */
+const getDatabase = (storeName: string): Promise<IDBDatabase> => {
+  const current = databases.get(storeName);
+  if (current) {
+    return current;
+  }
+
+  const database = openDatabase(storeName);
+  const forget = () => {
+    if (databases.get(storeName) === database) {
+      databases.delete(storeName);
+    }
+  };
+  databases.set(storeName, database);
+  database.then(
+    (connection) => {
+      connection.onversionchange = () => {
+        forget();
+        connection.close();
+      };
+      connection.onclose = forget;
+    },
+    forget,
+  );
+  return database;
+};
+
+/**
+ * Backend on IndexedDB, one database per store with the records keyed by key
+ */
+export const createIndexedDBBackend = async (
+  storeName: string,
+): Promise<IStorageBackend> => {
+  if (typeof indexedDB === 'undefined') {
+    throw createUnavailableError('IndexedDB is not available');
+  }
+  await getDatabase(storeName);
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>,
+  ): Promise<T> => {
+    const database = await getDatabase(storeName);
+    const transaction = database.transaction(OBJECT_STORE_NAME, mode);
+    const store = transaction.objectStore(OBJECT_STORE_NAME);
+    return await promisifyRequest(operation(store));
+  };
+
+  return {
+    name: 'indexedDB',
+    get: async (key) => {
+      const record = await run('readonly', (store) => store.get(key));
+      return record as IStorageRecord | undefined;
+    },
+    set: async (key, record) => {
+      await run('readwrite', (store) => store.put(record, key));
+    },
+    delete: async (key) => {
+      const count = await run('readonly', (store) => store.count(key));
+      if (!count) {
+        return false;
+      }
+      await run('readwrite', (store) => store.delete(key));
+      return true;
+    },
+    keys: async () => {
+      const keys = await run('readonly', (store) => store.getAllKeys());
+      return keys.map(String);
+    },
+  };
+};
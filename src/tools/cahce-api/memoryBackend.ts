@@ -0,0 +1,31 @@
+import type {
+  IStorageBackend,
+  IStorageRecord,
+} from './types';
+
+/**
+ * Records of the in-memory stores, shared by every store of the same name
+ */
+const memoryStores = new Map<string, Map<string, IStorageRecord>>();
+
+/**
+ * Backend in memory, always available and cleared when the page unloads. On
+ * the server it lasts as long as the process and is shared by every request
+ */
+export const createMemoryBackend = async (
+  storeName: string,
+): Promise<IStorageBackend> => {
+  const records =
+    memoryStores.get(storeName) ?? new Map<string, IStorageRecord>();
+  memoryStores.set(storeName, records);
+
+  return {
+    name: 'memory',
+    get: async (key) => records.get(key),
+    set: async (key, record) => {
+      records.set(key, record);
+    },
+    delete: async (key) => records.delete(key),
+    keys: async () => Array.from(records.keys()),
+  };
+};
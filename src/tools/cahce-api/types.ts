@@ -0,0 +1,151 @@
+/**
+ * Options for storing a value
+ */
+export interface IStorageSetItemOptions {
+  /** Time to live in milliseconds, the entry expires this long after it was stored */
+  ttl?: number;
+  /** The moment the entry expires, as a Date or a timestamp in milliseconds */
+  expiresAt?: Date | number;
+}
+
+/**
+ * Entry removed to keep a cache within its limits
+ */
+export interface IStorageEvictedEntry {
+  /** The key of the entry */
+  key: string;
+  /** The body size of the entry in bytes */
+  size: number;
+  /** When the entry was last written or read, in milliseconds */
+  accessedAt: number;
+}
+
+/**
+ * Limits of a size-bounded cache
+ */
+export interface IStorageLimits {
+  /** Maximum total body size of the entries in bytes */
+  maxBytes?: number;
+  /** Maximum number of entries */
+  maxEntries?: number;
+  /** Called once for every entry evicted to stay within the limits */
+  onEvict?: (entry: IStorageEvictedEntry) => void;
+}
+
+/**
+ * Stored value together with its metadata
+ */
+export interface IStorageRecord extends IStorageRecordMetadata {
+  /** The serialized value */
+  value: string;
+}
+
+/**
+ * Metadata of a stored value, read without the value to size and evict
+ * entries
+ */
+export interface IStorageRecordMetadata {
+  /**
+   * Version of the value format, missing for plain JSON written before
+   * Dates, Maps, Sets and other rich types were kept
+   */
+  version?: number;
+  /** When the entry expires, in milliseconds */
+  expiresAt?: number;
+  /** When the entry was written, in milliseconds */
+  accessedAt: number;
+  /**
+   * Size of the value in bytes, missing for entries written before it was
+   * stored
+   */
+  size?: number;
+}
+
+/**
+ * Storage that keeps the records of one store
+ */
+export interface IStorageBackend {
+  /** The name of the backend, e.g. `'cache'` or `'memory'` */
+  readonly name: string;
+  /** Returns the record of a key, or undefined if not found */
+  get: (key: string) => Promise<IStorageRecord | undefined>;
+  /**
+   * Returns the metadata of a key without reading its value, with the `size`
+   * set. Optional, `get` is used without it
+   */
+  getMetadata?: (key: string) => Promise<IStorageRecordMetadata | undefined>;
+  /** Stores the record of a key */
+  set: (key: string, record: IStorageRecord) => Promise<void>;
+  /** Removes a key, resolves with whether it existed */
+  delete: (key: string) => Promise<boolean>;
+  /** Returns every key */
+  keys: () => Promise<string[]>;
+}
+
+/**
+ * Creates the backend of a store. Rejects with a `NotSupportedError` or
+ * `SecurityError` when the storage is not available here, so the next
+ * backend is tried
+ */
+export type TStorageBackendFactory = (
+  storeName: string,
+) => Promise<IStorageBackend>;
+
+/**
+ * Built-in storage backends
+ */
+export type TStorageBackendName =
+  | 'cache'
+  | 'indexedDB'
+  | 'localStorage'
+  | 'sessionStorage'
+  | 'memory';
+
+/**
+ * Options for creating a cache store
+ */
+export interface ICacheStoreOptions extends IStorageLimits {
+  /**
+   * Backends in order of preference, the first available one is used.
+   * Defaults to `['cache', 'indexedDB', 'localStorage', 'memory']` in the
+   * browser and to the same list without `'memory'` on the server
+   */
+  backends?: (TStorageBackendName | TStorageBackendFactory)[];
+}
+
+/**
+ * Store bound to one cache
+ * @template V - The type of the stored values
+ */
+export interface ICacheStore<V = unknown> {
+  /** The name of the cache */
+  readonly cacheName: string;
+  /** Resolves with the name of the backend in use */
+  getBackendName: () => Promise<string>;
+  /** Returns the value of a key, or null if not found or expired */
+  get: (key: string) => Promise<V | null>;
+  /** Stores a value, optionally with a `ttl` or `expiresAt` */
+  set: (
+    key: string,
+    value: V,
+    options?: IStorageSetItemOptions,
+  ) => Promise<void>;
+  /** Whether a key exists and has not expired */
+  has: (key: string) => Promise<boolean>;
+  /** Removes a key, resolves with whether it existed */
+  delete: (key: string) => Promise<boolean>;
+  /** Returns every key, URL keys in full */
+  keys: () => Promise<string[]>;
+  /** Returns every key and value that has not expired */
+  entries: () => Promise<[string, V][]>;
+  /** Removes every key */
+  clear: () => Promise<void>;
+  /** Removes the keys that start with `str`, or end with it when `isPrefix` is false */
+  clearByPrefixOrSuffix: (str: string, isPrefix?: boolean) => Promise<void>;
+  /** Removes the expired keys, resolves with the number of removed keys */
+  purgeExpired: () => Promise<number>;
+  /** Returns the body size of one key, or of every key, in bytes */
+  size: (key?: string) => Promise<number>;
+  /** Bounds the size of the cache, no limits make it unbounded again */
+  setLimits: (limits?: IStorageLimits) => void;
+}
@@ -0,0 +1,95 @@
+import { isObject } from '../../assertion';
+
+import type {
+  IStorageRecord,
+  IStorageRecordMetadata,
+  IStorageSetItemOptions,
+} from './types';
+
+/**
+ * stringifyBigIntValues - A replacer function for JSON.stringify that converts BigInt values to strings.
+ *
+ * @param {string} _key - The key of the property being stringified.
+ * @param {unknown} value - The value of the property being stringified.
+ * @returns {unknown} - The value of the property being stringified.
+ */
+
+export const stringifyBigIntValues = (_key: string, value: unknown) => {
+  return typeof value === 'bigint' ? value.toString() : value;
+};
+
+/**
+ * Internal helper to resolve the expiry timestamp of the set options
+ */
+export const getExpiresAt = (
+  options: IStorageSetItemOptions,
+): number | undefined => {
+  const { ttl, expiresAt } = options;
+  if (ttl !== undefined && expiresAt !== undefined) {
+    throw new TypeError('Use only one of ttl and expiresAt');
+  }
+  let time = expiresAt instanceof Date ? expiresAt.getTime() : expiresAt;
+  if (ttl !== undefined) {
+    time = Date.now() + ttl;
+  }
+  // A NaN expiry would never expire
+  if (time !== undefined && !Number.isFinite(time)) {
+    throw new TypeError('ttl and expiresAt must be finite');
+  }
+  return time;
+};
+
+/**
+ * Internal helper to check the expiry of a record, records without one never
+ * expire
+ */
+export const isExpired = (record: IStorageRecordMetadata): boolean => {
+  return record.expiresAt !== undefined && record.expiresAt <= Date.now();
+};
+
+/**
+ * Internal helper to check the shape of a record read from storage shared
+ * with other code
+ */
+export const isStorageRecord = (value: unknown): value is IStorageRecord => {
+  return (
+    isObject(value) &&
+    typeof value.value === 'string' &&
+    typeof value.accessedAt === 'number' &&
+    (value.expiresAt === undefined || typeof value.expiresAt === 'number') &&
+    (value.version === undefined || typeof value.version === 'number') &&
+    (value.size === undefined || typeof value.size === 'number')
+  );
+};
+
+/**
+ * Internal helper to measure a serialized value in bytes
+ */
+export const getValueSize = (value: string): number => {
+  return new TextEncoder().encode(value).byteLength;
+};
+
+/**
+ * Internal helper to read the size of a record, records written before the
+ * size was stored are measured
+ */
+export const getRecordSize = (
+  record: IStorageRecordMetadata & { value?: string },
+): number => {
+  return record.size ?? (record.value ? getValueSize(record.value) : 0);
+};
+
+/**
+ * Internal helper to create the error of a backend that is not available
+ */
+export const createUnavailableError = (message: string): DOMException => {
+  return new DOMException(message, 'NotSupportedError');
+};
+
+/**
+ * Internal helper to tell unavailable backends apart from failing ones
+ */
+export const isUnavailableError = (error: unknown): boolean => {
+  const name = (error as { name?: unknown } | null | undefined)?.name;
+  return name === 'NotSupportedError' || name === 'SecurityError';
+};
@@ -0,0 +1,89 @@
+import {
+  createUnavailableError,
+  isStorageRecord,
+} from './utils';
+
+import type {
+  IStorageBackend,
+  IStorageRecord,
+} from './types';
+
+type TWebStorageName = 'localStorage' | 'sessionStorage';
+
+/**
+ * Written to check the storage, outside of the key space of every store
+ */
+const PROBE_KEY = 'cache-store:__probe__';
+
+/**
+ * Returns the storage if it can be written, reading it throws on opaque
+ * origins and writing it throws in the private mode of some browsers
+ */
+const getWritableStorage = (storageName: TWebStorageName): Storage => {
+  try {
+    const storage = (globalThis as Partial<Record<TWebStorageName, Storage>>)[
+      storageName
+    ];
+    if (storage) {
+      storage.setItem(PROBE_KEY, '');
+      storage.removeItem(PROBE_KEY);
+      return storage;
+    }
+  } catch {
+    // Reported as unavailable below
+  }
+  throw createUnavailableError(`${storageName} is not available`);
+};
+
+/**
+ * Internal helper that parses an item, items of other code that share the
+ * storage are not records
+ */
+const parseRecord = (item: string | null): IStorageRecord | undefined => {
+  if (item === null) {
+    return undefined;
+  }
+  try {
+    const record: unknown = JSON.parse(item);
+    return isStorageRecord(record) ? record : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Backend on localStorage or sessionStorage, records are stored as JSON under
+ * keys prefixed with `cache-store:` and the store name. The store name is
+ * encoded, so the `:` of one store name cannot reach into another store
+ */
+export const createWebStorageBackend = (
+  storageName: TWebStorageName,
+) => {
+  return async (storeName: string): Promise<IStorageBackend> => {
+    const prefix = `cache-store:${encodeURIComponent(storeName)}:`;
+    const storage = getWritableStorage(storageName);
+
+    return {
+      name: storageName,
+      get: async (key) => parseRecord(storage.getItem(prefix + key)),
+      set: async (key, record) => {
+        storage.setItem(prefix + key, JSON.stringify(record));
+      },
+      delete: async (key) => {
+        const exists = storage.getItem(prefix + key) !== null;
+        storage.removeItem(prefix + key);
+        return exists;
+      },
+      keys: async () => {
+        const keys: string[] = [];
+        for (let index = 0; index < storage.length; index++) {
+          const key = storage.key(index);
+          if (key?.startsWith(prefix) && parseRecord(storage.getItem(key))) {
+            keys.push(key.slice(prefix.length));
+          }
+        }
+        return keys;
+      },
+    };
+  };
+};
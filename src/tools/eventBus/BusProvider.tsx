@@ -0,0 +1,64 @@
+import {
+  createContext,
+  useContext,
+  useMemo,
+  useState,
+} from 'react';
+
+import {
+  createEventBusCore,
+  globalBus,
+} from './eventBus';
+
+import type {
+  IBusProviderProps,
+  IEventBusCore,
+} from './types';
+
+const BusContext = createContext<IEventBusCore | null>(null);
+
+/**
+ * Internal hook that returns the bus of the nearest `BusProvider`, or the
+ * global bus outside of any provider
+ */
+export const useScopedBus = (): IEventBusCore => {
+  return useContext(BusContext) ?? globalBus;
+};
+
+/**
+ * Scopes a bus to a React subtree, e.g. one per dashboard widget or modal
+ *
+ * `useEventBus`, `useBusValue` and `useBusDispatch` inside the subtree use
+ * the nearest provider's bus. Nested providers start a new scope, messages do
+ * not cross scopes.
+ *
+ * @param props - Optional `target` of the scoped bus and the children
+ *
+ * @example
+ * ```tsx
+ * const Widget = () => (
+ *   <BusProvider>
+ *     <WidgetToolbar />
+ *     <WidgetChart />
+ *   </BusProvider>
+ * );
+ *
+ * // Talk to the subtree from outside of React
+ * const target = new EventTarget();
+ * const modalBus = createEventBus<ModalEvents>({ target });
+ *
+ * <BusProvider target={target}>
+ *   <Modal />
+ * </BusProvider>
+ * ```
+ */
+export const BusProvider = ({ target, children }: IBusProviderProps) => {
+  const [ownTarget] = useState(() => new EventTarget());
+  const scopeTarget = target ?? ownTarget;
+  const bus = useMemo(
+    () => createEventBusCore({ target: scopeTarget }),
+    [scopeTarget],
+  );
+
+  return <BusContext.Provider value={bus}>{children}</BusContext.Provider>;
+};
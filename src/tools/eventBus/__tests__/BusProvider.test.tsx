@@ -0,0 +1,122 @@
+import {
+  act,
+  cleanup,
+  renderHook,
+} from '@testing-library/react';
+import {
+  afterEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import {
+  BusProvider,
+  busDispatch,
+  busSubscribe,
+  createEventBus,
+  useBusDispatch,
+  useBusValue,
+} from '../';
+import { useEventBus } from '../useEventBus';
+
+import type { ReactNode } from 'react';
+
+describe('BusProvider', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('should scope useEventBus to the nearest provider', () => {
+    const listener = vi.fn();
+    const target = new EventTarget();
+    const scopedBus = createEventBus<{ 'scoped-topic': string }>({ target });
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <BusProvider target={target}>{children}</BusProvider>
+    );
+    renderHook(() => useEventBus('scoped-topic', listener), { wrapper });
+
+    act(() => {
+      busDispatch('scoped-topic', 'global');
+      scopedBus.dispatch('scoped-topic', 'scoped');
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('scoped', expect.anything());
+  });
+
+  it('should bind useBusDispatch to the nearest provider', () => {
+    const scopedListener = vi.fn();
+    const globalListener = vi.fn();
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <BusProvider>{children}</BusProvider>
+    );
+    const unsubscribe = busSubscribe('scoped-topic', globalListener);
+    const { result } = renderHook(
+      () => {
+        useEventBus('scoped-topic', scopedListener);
+        return useBusDispatch();
+      },
+      { wrapper },
+    );
+
+    act(() => {
+      result.current('scoped-topic', 'data');
+    });
+    unsubscribe();
+
+    expect(scopedListener).toHaveBeenCalledWith('data', expect.anything());
+    expect(globalListener).not.toHaveBeenCalled();
+  });
+
+  it('should keep separate scopes for separate providers', () => {
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <BusProvider>{children}</BusProvider>
+    );
+    const first = renderHook(
+      () => ({
+        dispatch: useBusDispatch(),
+        value: useBusValue('scoped-topic', 'initial'),
+      }),
+      { wrapper },
+    );
+    const second = renderHook(() => useBusValue('scoped-topic', 'initial'), {
+      wrapper,
+    });
+
+    act(() => {
+      first.result.current.dispatch('scoped-topic', 'first');
+    });
+
+    expect(first.result.current.value).toBe('first');
+    expect(second.result.current).toBe('initial');
+  });
+
+  it('should fall back to the global bus without a provider', () => {
+    const listener = vi.fn();
+    const unsubscribe = busSubscribe('scoped-topic', listener);
+    const { result } = renderHook(() => useBusDispatch());
+
+    act(() => {
+      result.current('scoped-topic', 'data');
+    });
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith('data', expect.anything());
+  });
+
+  it('should return a stable dispatcher', () => {
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <BusProvider>{children}</BusProvider>
+    );
+    const { result, rerender } = renderHook(() => useBusDispatch(), {
+      wrapper,
+    });
+    const dispatch = result.current;
+
+    rerender();
+
+    expect(result.current).toBe(dispatch);
+  });
+});
@@ -0,0 +1,144 @@
+import {
+  afterEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import {
+  createBroadcastBridge,
+  createEventBus,
+} from '../';
+
+import type { IEventBusBridge } from '../types';
+
+type TestEvents = {
+  logout: undefined;
+  'cart.updated': { total: bigint };
+  'local-only': string;
+};
+
+const waitForChannel = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('createBroadcastBridge', () => {
+  const bridges: IEventBusBridge[] = [];
+
+  const createTab = () => {
+    const target = new EventTarget();
+    const bus = createEventBus<TestEvents>({ target });
+    const bridge = createBroadcastBridge({
+      topics: ['logout', 'cart.*'],
+      channelName: 'test-channel',
+      target,
+    });
+    bridges.push(bridge);
+    return { bus, bridge };
+  };
+
+  afterEach(() => {
+    for (const bridge of bridges.splice(0)) {
+      bridge.close();
+    }
+  });
+
+  it('should forward allowed topics to other tabs', async () => {
+    const first = createTab();
+    const second = createTab();
+    const listener = vi.fn();
+    second.bus.subscribe('logout', listener);
+
+    first.bus.dispatch('logout');
+    await waitForChannel();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not forward topics outside of the allowlist', async () => {
+    const first = createTab();
+    const second = createTab();
+    const listener = vi.fn();
+    second.bus.subscribe('local-only', listener);
+
+    first.bus.dispatch('local-only', 'data');
+    await waitForChannel();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should not echo received messages back', async () => {
+    const first = createTab();
+    const second = createTab();
+    const firstListener = vi.fn();
+    const secondListener = vi.fn();
+    first.bus.subscribe('logout', firstListener);
+    second.bus.subscribe('logout', secondListener);
+
+    first.bus.dispatch('logout');
+    await waitForChannel();
+
+    expect(firstListener).toHaveBeenCalledTimes(1);
+    expect(secondListener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should forward messages dispatched while handling a received one', async () => {
+    const first = createTab();
+    const second = createTab();
+    const listener = vi.fn();
+    first.bus.subscribe('cart.updated', listener);
+    second.bus.subscribe('logout', () => {
+      second.bus.dispatch('cart.updated', { total: 0n });
+    });
+
+    first.bus.dispatch('logout');
+    await waitForChannel();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ total: 0n }, expect.anything());
+  });
+
+  it('should preserve BigInt values', async () => {
+    const first = createTab();
+    const second = createTab();
+    const listener = vi.fn();
+    second.bus.subscribe('cart.updated', listener);
+
+    first.bus.dispatch('cart.updated', { total: 9007199254740993n });
+    await waitForChannel();
+
+    expect(listener).toHaveBeenCalledWith(
+      { total: 9007199254740993n },
+      expect.anything(),
+    );
+  });
+
+  it('should stop forwarding once closed', async () => {
+    const first = createTab();
+    const second = createTab();
+    const listener = vi.fn();
+    second.bus.subscribe('logout', listener);
+
+    first.bridge.close();
+    first.bridge.close();
+    first.bus.dispatch('logout');
+    await waitForChannel();
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should give every bridge its own id', () => {
+    const first = createTab();
+    const second = createTab();
+
+    expect(first.bridge.id).toEqual(expect.any(String));
+    expect(first.bridge.id).not.toBe(second.bridge.id);
+  });
+
+  it('should do nothing where BroadcastChannel is not available', () => {
+    vi.stubGlobal('BroadcastChannel', undefined);
+    const bridge = createBroadcastBridge({ topics: ['logout'] });
+    vi.unstubAllGlobals();
+
+    expect(() => bridge.close()).not.toThrow();
+  });
+});
@@ -0,0 +1,272 @@
+import {
+  act,
+  cleanup,
+  renderHook,
+} from '@testing-library/react';
+import {
+  afterEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import {
+  busDispatch,
+  busSubscribe,
+  createEventBus,
+} from '../';
+import {
+  isNumber,
+  isString,
+} from '../../../assertion';
+
+import type { IEventBusRequestSpec } from '../types';
+
+type TestEvents = {
+  'user-updated': { id: number; name: string };
+  logout: undefined;
+};
+
+type TestRequests = {
+  'get-user': IEventBusRequestSpec<{ id: number }, { name: string }>;
+};
+
+describe('createEventBus', () => {
+  afterEach(() => {
+    cleanup();
+    vi.clearAllMocks();
+  });
+
+  it('should deliver typed messages to subscribers', () => {
+    const bus = createEventBus<TestEvents>();
+    const listener = vi.fn();
+
+    const unsubscribe = bus.subscribe('user-updated', listener);
+    bus.dispatch('user-updated', { id: 1, name: 'John' });
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith(
+      { id: 1, name: 'John' },
+      expect.anything(),
+    );
+  });
+
+  it('should allow dispatching void topics without a message', () => {
+    const bus = createEventBus<TestEvents>();
+    const listener = vi.fn();
+
+    const unsubscribe = bus.subscribe('logout', listener);
+    bus.dispatch('logout');
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject mismatched payloads at compile time', () => {
+    const bus = createEventBus<TestEvents>();
+    const listener = vi.fn();
+    const unsubscribe = bus.subscribe('user-updated', listener);
+
+    // @ts-expect-error - payload does not match the topic
+    bus.dispatch('user-updated', { userId: 1 });
+    // @ts-expect-error - unknown topic
+    bus.dispatch('unknown-topic', {});
+    // @ts-expect-error - message is required for non-void topics
+    bus.dispatch('user-updated');
+
+    unsubscribe();
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+
+  it('should call once listeners a single time', () => {
+    const bus = createEventBus<TestEvents>();
+    const listener = vi.fn();
+
+    bus.once('user-updated', listener);
+    bus.dispatch('user-updated', { id: 1, name: 'John' });
+    bus.dispatch('user-updated', { id: 2, name: 'Jane' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      { id: 1, name: 'John' },
+      expect.anything(),
+    );
+  });
+
+  it('should allow cancelling a once listener before it fires', () => {
+    const bus = createEventBus<TestEvents>();
+    const listener = vi.fn();
+
+    const unsubscribe = bus.once('logout', listener);
+    unsubscribe();
+    bus.dispatch('logout');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should subscribe through the bound hook', () => {
+    const bus = createEventBus<TestEvents>();
+    const listener = vi.fn();
+    const { unmount } = renderHook(() =>
+      bus.useEventBus('user-updated', listener),
+    );
+
+    act(() => {
+      bus.dispatch('user-updated', { id: 1, name: 'John' });
+    });
+    unmount();
+    act(() => {
+      bus.dispatch('user-updated', { id: 2, name: 'Jane' });
+    });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(
+      { id: 1, name: 'John' },
+      expect.anything(),
+    );
+  });
+
+  describe('targets', () => {
+    it('should share the global channel when no target is given', () => {
+      const bus = createEventBus<TestEvents>();
+      const busListener = vi.fn();
+      const globalListener = vi.fn();
+
+      const unsubscribeBus = bus.subscribe('user-updated', busListener);
+      const unsubscribeGlobal = busSubscribe('user-updated', globalListener);
+
+      busDispatch('user-updated', { id: 1, name: 'John' });
+      bus.dispatch('user-updated', { id: 2, name: 'Jane' });
+      unsubscribeBus();
+      unsubscribeGlobal();
+
+      expect(busListener).toHaveBeenCalledTimes(2);
+      expect(globalListener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should isolate buses created over their own target', () => {
+      const first = createEventBus<TestEvents>({ target: new EventTarget() });
+      const second = createEventBus<TestEvents>({ target: new EventTarget() });
+      const firstListener = vi.fn();
+      const secondListener = vi.fn();
+      const globalListener = vi.fn();
+
+      first.subscribe('logout', firstListener);
+      second.subscribe('logout', secondListener);
+      const unsubscribe = busSubscribe('logout', globalListener);
+
+      first.dispatch('logout');
+      unsubscribe();
+
+      expect(firstListener).toHaveBeenCalledTimes(1);
+      expect(secondListener).not.toHaveBeenCalled();
+      expect(globalListener).not.toHaveBeenCalled();
+    });
+
+    it('should dispatch on the given target', () => {
+      const target = new EventTarget();
+      const dispatchSpy = vi.spyOn(target, 'dispatchEvent');
+      const bus = createEventBus<TestEvents>({ target });
+
+      bus.dispatch('logout');
+
+      expect(dispatchSpy).toHaveBeenCalledWith(expect.any(CustomEvent));
+    });
+  });
+
+  it('should deliver typed envelopes to pattern subscriptions', () => {
+    const bus = createEventBus<TestEvents>({ target: new EventTarget() });
+    const listener = vi.fn();
+
+    bus.subscribeAll(({ topic, message }) => {
+      if (topic === 'user-updated') {
+        listener(message.name);
+      }
+    });
+    bus.dispatch('user-updated', { id: 1, name: 'John' });
+    bus.dispatch('logout');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('John');
+  });
+
+  it('should type requests and responses by topic', async () => {
+    const bus = createEventBus<TestEvents, TestRequests>({
+      target: new EventTarget(),
+    });
+
+    bus.respond('get-user', ({ id }) => ({ name: `user-${id}` }));
+
+    await expect(bus.request('get-user', { id: 1 })).resolves.toEqual({
+      name: 'user-1',
+    });
+    // @ts-expect-error - payload does not match the request topic
+    await expect(bus.request('get-user', { userId: 1 })).resolves.toEqual({
+      name: 'user-undefined',
+    });
+  });
+
+  it('should inspect and record only its own target', () => {
+    const bus = createEventBus<TestEvents>({ target: new EventTarget() });
+    bus.setHistory();
+    bus.subscribe('logout', () => {});
+
+    bus.dispatch('user-updated', { id: 1, name: 'John' });
+    busDispatch('user-updated', { id: 2, name: 'Jane' });
+
+    expect(bus.inspect().topics).toEqual([
+      { topic: 'logout', subscriberCount: 1 },
+    ]);
+    expect(bus.getHistory()).toEqual([
+      {
+        topic: 'user-updated',
+        message: { id: 1, name: 'John' },
+        timestamp: expect.any(Number),
+      },
+    ]);
+  });
+
+  it('should infer the event map from validators', () => {
+    const bus = createEventBus({
+      target: new EventTarget(),
+      validators: { count: isNumber, title: isString },
+    });
+    const listener = vi.fn();
+
+    bus.subscribe('count', (count) => listener(count.toFixed(1)));
+    bus.dispatch('count', 1);
+
+    expect(listener).toHaveBeenCalledWith('1.0');
+    // @ts-expect-error - payload does not match the validator
+    expect(() => bus.dispatch('title', 1)).toThrow(TypeError);
+  });
+
+  it('should not register validators on the global bus', () => {
+    expect(() =>
+      // @ts-expect-error - validators need a target
+      createEventBus({ validators: { count: isNumber } }),
+    ).toThrow(TypeError);
+
+    expect(() => busDispatch('count', 'nope')).not.toThrow();
+  });
+
+  it('should type batched messages as arrays', () => {
+    vi.useFakeTimers();
+    const bus = createEventBus<TestEvents>({ target: new EventTarget() });
+    const listener = vi.fn();
+
+    const unsubscribe = bus.subscribe(
+      'user-updated',
+      (users) => listener(users.map(({ name }) => name)),
+      { batch: 'all' },
+    );
+    bus.dispatch('user-updated', { id: 1, name: 'John' });
+    bus.dispatch('user-updated', { id: 2, name: 'Jane' });
+    vi.advanceTimersByTime(20);
+    unsubscribe();
+    vi.useRealTimers();
+
+    expect(listener).toHaveBeenCalledWith(['John', 'Jane']);
+  });
+});
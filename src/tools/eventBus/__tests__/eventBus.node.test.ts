@@ -0,0 +1,55 @@
+// @vitest-environment node
+import {
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import {
+  busDispatch,
+  busSubscribe,
+  createEventBus,
+  createMockEventBus,
+} from '../';
+
+describe('EventBus outside the browser', () => {
+  it('should not depend on window', () => {
+    expect(typeof window).toBe('undefined');
+  });
+
+  it('should deliver messages on the global bus', () => {
+    const listener = vi.fn();
+    const unsubscribe = busSubscribe('test-topic', listener);
+
+    busDispatch('test-topic', { data: 'test' });
+    unsubscribe();
+    busDispatch('test-topic', { data: 'ignored' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ data: 'test' }, expect.anything());
+  });
+
+  it('should deliver messages on isolated buses', () => {
+    const bus = createEventBus<{ ping: number }>({
+      target: new EventTarget(),
+    });
+    const listener = vi.fn();
+
+    bus.subscribe('ping', listener);
+    bus.dispatch('ping', 1);
+
+    expect(listener).toHaveBeenCalledWith(1, expect.anything());
+  });
+
+  it('should record dispatches on the global bus with a mock bus', () => {
+    const mock = createMockEventBus();
+
+    busDispatch('test-topic', { data: 'test' });
+    mock.restore();
+
+    expect(() =>
+      mock.expectDispatched('test-topic', { data: 'test' }),
+    ).not.toThrow();
+  });
+});
@@ -8,11 +8,45 @@ import {
 } from 'vitest';
 
 import {
+  busAddMiddleware,
+  busClearHistory,
+  busClearRetained,
+  busCurrentDispatch,
   busDispatch,
+  busDispatchAsync,
+  busExportHistory,
+  busGetHistory,
+  busGetRetained,
+  busInspect,
+  busOnce,
+  busReplayHistory,
+  busRequest,
+  busRespond,
+  busSetErrorHandling,
+  busSetHistory,
+  busSetMutationWarnings,
+  busSetPayloadMode,
+  busSetSticky,
+  busSetValidationEnabled,
+  busSetValidator,
   busSubscribe,
+  busSubscribeAll,
+  busSubscribePattern,
+  busWaitFor,
+  createEventBus,
 } from '../';
+import {
+  isNumber,
+  isObject,
+  isString,
+} from '../../../assertion';
 
-import type { TEventBusListener } from '../types';
+import type {
+  IEventBus,
+  IEventBusEnvelope,
+  IEventBusHistoryEntry,
+  TEventBusListener,
+} from '../types';
 
 beforeEach(() => {
   // No need to mock window as jsdom provides it
@@ -37,7 +71,7 @@ describe('EventBus', () => {
       busSubscribe(topic, listener);
       busDispatch(topic, message);
 
-      expect(listener).toHaveBeenCalledWith(message);
+      expect(listener).toHaveBeenCalledWith(message, expect.anything());
     });
 
     it('should support multiple listeners for same event', () => {
@@ -52,8 +86,8 @@ describe('EventBus', () => {
 
       expect(listener1).toHaveBeenCalledTimes(1);
       expect(listener2).toHaveBeenCalledTimes(1);
-      expect(listener1).toHaveBeenCalledWith(payload);
-      expect(listener2).toHaveBeenCalledWith(payload);
+      expect(listener1).toHaveBeenCalledWith(payload, expect.anything());
+      expect(listener2).toHaveBeenCalledWith(payload, expect.anything());
     });
 
     it('should not call listeners of different events', () => {
@@ -78,7 +112,7 @@ describe('EventBus', () => {
       busDispatch('test-event', 'second');
 
       expect(listener).toHaveBeenCalledTimes(1);
-      expect(listener).toHaveBeenCalledWith('first');
+      expect(listener).toHaveBeenCalledWith('first', expect.anything());
     });
 
     it('should handle multiple subscriptions and unsubscriptions correctly', () => {
@@ -95,9 +129,9 @@ describe('EventBus', () => {
       unsubscribe2();
 
       expect(listener1).toHaveBeenCalledTimes(1);
-      expect(listener1).toHaveBeenCalledWith('first');
+      expect(listener1).toHaveBeenCalledWith('first', expect.anything());
       expect(listener2).toHaveBeenCalledTimes(2);
-      expect(listener2).toHaveBeenCalledWith('second');
+      expect(listener2).toHaveBeenCalledWith('second', expect.anything());
     });
 
     it('should handle errors in listeners without affecting other listeners', () => {
@@ -116,7 +150,10 @@ describe('EventBus', () => {
 
       expect(errorListener).toHaveBeenCalledTimes(1);
       expect(successListener).toHaveBeenCalledTimes(1);
-      expect(successListener).toHaveBeenCalledWith({ data: 'test' });
+      expect(successListener).toHaveBeenCalledWith(
+        { data: 'test' },
+        expect.anything(),
+      );
 
       // Verify error was logged
       expect(consoleSpy).toHaveBeenCalledWith(
@@ -164,7 +201,7 @@ describe('EventBus', () => {
       busSubscribe(topic, listener);
       busDispatch(topic, 'test');
 
-      expect(listener).toHaveBeenCalledWith('test');
+      expect(listener).toHaveBeenCalledWith('test', expect.anything());
     });
 
     it('should handle undefined or null event data', () => {
@@ -175,8 +212,8 @@ describe('EventBus', () => {
       busDispatch('test-topic', null);
 
       expect(listener).toHaveBeenCalledTimes(2);
-      expect(listener).toHaveBeenNthCalledWith(1, null);
-      expect(listener).toHaveBeenNthCalledWith(2, null);
+      expect(listener).toHaveBeenNthCalledWith(1, null, expect.anything());
+      expect(listener).toHaveBeenNthCalledWith(2, null, expect.anything());
     });
 
     it('should handle falsy event data', () => {
@@ -188,9 +225,9 @@ describe('EventBus', () => {
       busDispatch('test-topic', false);
 
       expect(listener).toHaveBeenCalledTimes(3);
-      expect(listener).toHaveBeenNthCalledWith(1, 0);
-      expect(listener).toHaveBeenNthCalledWith(2, '');
-      expect(listener).toHaveBeenNthCalledWith(3, false);
+      expect(listener).toHaveBeenNthCalledWith(1, 0, expect.anything());
+      expect(listener).toHaveBeenNthCalledWith(2, '', expect.anything());
+      expect(listener).toHaveBeenNthCalledWith(3, false, expect.anything());
     });
 
     it('should handle invalid event objects', () => {
@@ -214,4 +251,1629 @@ describe('EventBus', () => {
       addEventListenerSpy.mockRestore();
     });
   });
+
+  describe('busOnce', () => {
+    it('should call listener only for the first message', () => {
+      const listener = vi.fn();
+      busOnce('once-topic', listener);
+
+      busDispatch('once-topic', 'first');
+      busDispatch('once-topic', 'second');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('first', expect.anything());
+    });
+
+    it('should not call listener when unsubscribed before dispatch', () => {
+      const listener = vi.fn();
+      const unsubscribe = busOnce('once-topic', listener);
+
+      unsubscribe();
+      busDispatch('once-topic', 'first');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('busWaitFor', () => {
+    it('should resolve with the next message', async () => {
+      const promise = busWaitFor('wait-topic');
+      busDispatch('wait-topic', { ready: true });
+
+      await expect(promise).resolves.toEqual({ ready: true });
+    });
+
+    it('should skip messages that do not pass the filter', async () => {
+      const promise = busWaitFor<{ topic: string; message: number }>(
+        'wait-topic',
+        { filter: (value) => value > 1 },
+      );
+      busDispatch('wait-topic', 1);
+      busDispatch('wait-topic', 2);
+
+      await expect(promise).resolves.toBe(2);
+    });
+
+    it('should reject when the filter throws', async () => {
+      const error = new Error('Filter error');
+      const promise = busWaitFor('wait-topic', {
+        filter: () => {
+          throw error;
+        },
+      });
+      busDispatch('wait-topic', 1);
+
+      await expect(promise).rejects.toBe(error);
+    });
+
+    it('should reject with a TimeoutError and remove the listener', async () => {
+      vi.useFakeTimers();
+      const removeSpy = vi.spyOn(window, 'removeEventListener');
+      const promise = busWaitFor('wait-topic', { timeout: 100 });
+
+      vi.advanceTimersByTime(100);
+
+      await expect(promise).rejects.toMatchObject({ name: 'TimeoutError' });
+      expect(removeSpy).toHaveBeenCalledTimes(1);
+      vi.useRealTimers();
+    });
+
+    it('should reject with the abort reason when aborted', async () => {
+      const controller = new AbortController();
+      const removeSpy = vi.spyOn(window, 'removeEventListener');
+      const promise = busWaitFor('wait-topic', { signal: controller.signal });
+
+      controller.abort(new Error('Aborted'));
+
+      await expect(promise).rejects.toThrow('Aborted');
+      expect(removeSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      const addSpy = vi.spyOn(window, 'addEventListener');
+      const promise = busWaitFor('wait-topic', {
+        signal: AbortSignal.abort(new Error('Aborted')),
+      });
+
+      await expect(promise).rejects.toThrow('Aborted');
+      expect(addSpy).not.toHaveBeenCalled();
+    });
+
+    it('should reject for an empty topic', async () => {
+      await expect(busWaitFor('')).rejects.toBeInstanceOf(TypeError);
+    });
+  });
+
+  describe('busSubscribePattern/busSubscribeAll', () => {
+    it('should deliver matching topics with their envelope', () => {
+      const listener = vi.fn();
+      const unsubscribe = busSubscribePattern('user.*', listener);
+
+      busDispatch('user.updated', { id: 1 });
+      busDispatch('user.profile.updated', { id: 2 });
+      busDispatch('account.updated', { id: 3 });
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith({
+        topic: 'user.updated',
+        message: { id: 1 },
+      }, expect.anything());
+    });
+
+    it('should keep exact subscriptions working next to patterns', () => {
+      const exactListener = vi.fn();
+      const patternListener = vi.fn();
+      const unsubscribeExact = busSubscribe('user.updated', exactListener);
+      const unsubscribePattern = busSubscribePattern('user.**', patternListener);
+
+      busDispatch('user.updated', 'data');
+      unsubscribeExact();
+      unsubscribePattern();
+
+      expect(exactListener).toHaveBeenCalledWith('data', expect.anything());
+      expect(patternListener).toHaveBeenCalledWith({
+        topic: 'user.updated',
+        message: 'data',
+      }, expect.anything());
+    });
+
+    it('should treat patterns as literal topics for busSubscribe', () => {
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('user.*', listener);
+
+      busDispatch('user.updated', 'data');
+      busDispatch('user.*', 'literal');
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('literal', expect.anything());
+    });
+
+    it('should deliver every topic to catch-all subscriptions', () => {
+      const listener = vi.fn();
+      const unsubscribe = busSubscribeAll(listener);
+
+      busDispatch('first', 1);
+      busDispatch('second.nested', 2);
+      unsubscribe();
+      busDispatch('third', 3);
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenNthCalledWith(
+        1,
+        { topic: 'first', message: 1 },
+        expect.anything(),
+      );
+      expect(listener).toHaveBeenNthCalledWith(2, {
+        topic: 'second.nested',
+        message: 2,
+      }, expect.anything());
+    });
+
+    it('should only dispatch the wildcard event while patterns are subscribed', () => {
+      const dispatchSpy = vi.spyOn(window, 'dispatchEvent');
+
+      busDispatch('topic', 'data');
+      expect(dispatchSpy).toHaveBeenCalledTimes(1);
+
+      const unsubscribe = busSubscribeAll(() => {});
+      unsubscribe();
+      unsubscribe();
+      busDispatch('topic', 'data');
+      expect(dispatchSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore empty patterns and invalid listeners', () => {
+      const unsubscribe = busSubscribePattern('', vi.fn());
+      const unsubscribeInvalid = busSubscribeAll(
+        null as unknown as TEventBusListener<IEventBusEnvelope>,
+      );
+
+      expect(() => {
+        unsubscribe();
+        unsubscribeInvalid();
+      }).not.toThrow();
+    });
+  });
+
+  describe('sticky topics', () => {
+    afterEach(() => {
+      busSetSticky('sticky-topic', { size: 0 });
+    });
+
+    it('should replay the last message to late subscribers', () => {
+      busSetSticky('sticky-topic');
+      busDispatch('sticky-topic', 'light');
+      busDispatch('sticky-topic', 'dark');
+
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('sticky-topic', listener);
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('dark', expect.anything());
+    });
+
+    it('should replay the last N messages in order', () => {
+      busSetSticky('sticky-topic', { size: 2 });
+      busDispatch('sticky-topic', 1);
+      busDispatch('sticky-topic', 2);
+      busDispatch('sticky-topic', 3);
+
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('sticky-topic', listener);
+      busDispatch('sticky-topic', 4);
+      unsubscribe();
+
+      expect(listener.mock.calls.map(([message]) => message)).toEqual([
+        2,
+        3,
+        4,
+      ]);
+      expect(busGetRetained('sticky-topic')).toEqual([3, 4]);
+    });
+
+    it('should not retain messages of regular topics', () => {
+      busDispatch('regular-topic', 'data');
+
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('regular-topic', listener);
+      unsubscribe();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(busGetRetained('regular-topic')).toEqual([]);
+    });
+
+    it('should clear retained messages and keep the topic sticky', () => {
+      busSetSticky('sticky-topic');
+      busDispatch('sticky-topic', 'first');
+      busClearRetained('sticky-topic');
+
+      expect(busGetRetained('sticky-topic')).toEqual([]);
+
+      busDispatch('sticky-topic', 'second');
+      expect(busGetRetained('sticky-topic')).toEqual(['second']);
+    });
+
+    it('should trim retained messages when the size shrinks', () => {
+      busSetSticky('sticky-topic', { size: 3 });
+      busDispatch('sticky-topic', 1);
+      busDispatch('sticky-topic', 2);
+      busDispatch('sticky-topic', 3);
+      busSetSticky('sticky-topic', { size: 1 });
+
+      expect(busGetRetained('sticky-topic')).toEqual([3]);
+    });
+
+    it('should replay only one message to busOnce', () => {
+      busSetSticky('sticky-topic', { size: 2 });
+      busDispatch('sticky-topic', 1);
+      busDispatch('sticky-topic', 2);
+
+      const listener = vi.fn();
+      busOnce('sticky-topic', listener);
+      busDispatch('sticky-topic', 3);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(1, expect.anything());
+    });
+
+    it('should resolve busWaitFor with a retained message', async () => {
+      const removeSpy = vi.spyOn(window, 'removeEventListener');
+      busSetSticky('sticky-topic');
+      busDispatch('sticky-topic', { ready: true });
+
+      await expect(busWaitFor('sticky-topic')).resolves.toEqual({
+        ready: true,
+      });
+      expect(removeSpy).toHaveBeenCalled();
+    });
+  });
+
+  describe('busRequest/busRespond', () => {
+    it('should resolve with a synchronous response', async () => {
+      const unsubscribe = busRespond<{ request: number; response: number }>(
+        'double',
+        (value) => value * 2,
+      );
+
+      await expect(busRequest('double', 21)).resolves.toBe(42);
+      unsubscribe();
+    });
+
+    it('should resolve with an asynchronous response', async () => {
+      const unsubscribe = busRespond('get-user', async (payload) => ({
+        id: (payload as { id: number }).id,
+        name: 'John',
+      }));
+
+      await expect(busRequest('get-user', { id: 1 })).resolves.toEqual({
+        id: 1,
+        name: 'John',
+      });
+      unsubscribe();
+    });
+
+    it('should reject with the error of the responder', async () => {
+      const unsubscribe = busRespond('fails', () => {
+        throw new TypeError('Invalid payload');
+      });
+
+      const promise = busRequest('fails', null);
+      await expect(promise).rejects.toThrow('Invalid payload');
+      await expect(promise).rejects.toMatchObject({ name: 'TypeError' });
+      unsubscribe();
+    });
+
+    it('should reject with a TimeoutError when nobody responds', async () => {
+      vi.useFakeTimers();
+      const promise = busRequest('nobody-home', null, { timeout: 100 });
+      vi.advanceTimersByTime(100);
+
+      await expect(promise).rejects.toMatchObject({
+        name: 'TimeoutError',
+        message: 'No response for "nobody-home" within 100ms',
+      });
+      vi.useRealTimers();
+    });
+
+    it('should resolve with the first response when several responders answer', async () => {
+      const slow = vi.fn(
+        () => new Promise((resolve) => setTimeout(() => resolve('slow'), 10)),
+      );
+      const fast = vi.fn(() => 'fast');
+      const unsubscribeSlow = busRespond('race', slow);
+      const unsubscribeFast = busRespond('race', fast);
+
+      await expect(busRequest('race', null)).resolves.toBe('fast');
+      expect(slow).toHaveBeenCalledTimes(1);
+      expect(fast).toHaveBeenCalledTimes(1);
+      unsubscribeSlow();
+      unsubscribeFast();
+    });
+
+    it('should keep concurrent requests apart by correlation id', async () => {
+      const unsubscribe = busRespond<{ request: number; response: number }>(
+        'delayed-echo',
+        (value) =>
+          new Promise((resolve) => setTimeout(() => resolve(value), 10 - value)),
+      );
+
+      const results = await Promise.all([
+        busRequest('delayed-echo', 1),
+        busRequest('delayed-echo', 5),
+      ]);
+
+      expect(results).toEqual([1, 5]);
+      unsubscribe();
+    });
+
+    it('should stop answering once unsubscribed', async () => {
+      vi.useFakeTimers();
+      const handler = vi.fn(() => 'answer');
+      const unsubscribe = busRespond('stopped', handler);
+      unsubscribe();
+
+      const promise = busRequest('stopped', null, { timeout: 50 });
+      vi.advanceTimersByTime(50);
+
+      await expect(promise).rejects.toMatchObject({ name: 'TimeoutError' });
+      expect(handler).not.toHaveBeenCalled();
+      vi.useRealTimers();
+    });
+
+    it('should clean up when sending the request throws', async () => {
+      const error = new Error('blocked');
+      const remove = busAddMiddleware(() => {
+        throw error;
+      });
+
+      await expect(busRequest('blocked', null)).rejects.toBe(error);
+      remove();
+
+      expect(busInspect().topics).not.toContainEqual(
+        expect.objectContaining({ topic: 'rpc:response:blocked' }),
+      );
+    });
+  });
+
+  describe('busAddMiddleware', () => {
+    it('should run middleware in order before listeners', () => {
+      const calls: string[] = [];
+      const removeFirst = busAddMiddleware((_context, next) => {
+        calls.push('first');
+        next();
+      });
+      const removeSecond = busAddMiddleware((_context, next) => {
+        calls.push('second');
+        next();
+      });
+      const unsubscribe = busSubscribe('mw-topic', () => calls.push('listener'));
+
+      busDispatch('mw-topic', 'data');
+      removeFirst();
+      removeSecond();
+      unsubscribe();
+
+      expect(calls).toEqual(['first', 'second', 'listener']);
+    });
+
+    it('should let middleware transform the message', () => {
+      const remove = busAddMiddleware((context, next) => {
+        context.message = { ...(context.message as object), traceId: 'abc' };
+        next();
+      });
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('mw-topic', listener);
+
+      busDispatch('mw-topic', { data: 'test' });
+      remove();
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith(
+        { data: 'test', traceId: 'abc' },
+        expect.anything(),
+      );
+    });
+
+    it('should drop the message when next is not called', () => {
+      const later = vi.fn();
+      const removeDrop = busAddMiddleware(() => {});
+      const removeLater = busAddMiddleware((_context, next) => {
+        later();
+        next();
+      });
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('mw-topic', listener);
+
+      busDispatch('mw-topic', 'data');
+      removeDrop();
+      removeLater();
+      unsubscribe();
+
+      expect(later).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should deliver only once when next is called twice', () => {
+      const remove = busAddMiddleware((_context, next) => {
+        next();
+        next();
+      });
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('mw-topic', listener);
+
+      busDispatch('mw-topic', 'data');
+      remove();
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('should warn when next is called after the dispatch returned', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const remove = busAddMiddleware(async (_context, next) => {
+        await Promise.resolve();
+        next();
+      });
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('mw-topic', listener);
+
+      busDispatch('mw-topic', 'data');
+      expect(listener).not.toHaveBeenCalled();
+      await Promise.resolve();
+      remove();
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('"mw-topic"'));
+    });
+
+    it('should not warn when next is called synchronously', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const remove = busAddMiddleware((_context, next) => next());
+
+      busDispatch('mw-topic', 'data');
+      remove();
+
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('should only run for matching topic patterns', () => {
+      const middleware = vi.fn((_context, next: () => void) => next());
+      const remove = busAddMiddleware(middleware, { topics: ['user.*'] });
+
+      busDispatch('user.updated', 1);
+      busDispatch('account.updated', 2);
+      remove();
+
+      expect(middleware).toHaveBeenCalledTimes(1);
+      expect(middleware).toHaveBeenCalledWith(
+        { topic: 'user.updated', message: 1 },
+        expect.any(Function),
+      );
+    });
+
+    it('should stop running once removed', () => {
+      const middleware = vi.fn((_context, next: () => void) => next());
+      const remove = busAddMiddleware(middleware);
+
+      remove();
+      busDispatch('mw-topic', 'data');
+
+      expect(middleware).not.toHaveBeenCalled();
+    });
+
+    it('should be scoped to the bus target', () => {
+      const middleware = vi.fn((_context, next: () => void) => next());
+      const remove = busAddMiddleware(middleware);
+      const bus = createEventBus<{ ping: number }>({
+        target: new EventTarget(),
+      });
+
+      bus.dispatch('ping', 1);
+      remove();
+
+      expect(middleware).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('busSetErrorHandling', () => {
+    afterEach(() => {
+      busSetErrorHandling();
+    });
+
+    it('should pass listener errors to onError with their context', () => {
+      const onError = vi.fn();
+      busSetErrorHandling({ onError });
+      const error = new Error('Listener error');
+      const listener = vi.fn(() => {
+        throw error;
+      });
+      const unsubscribe = busSubscribe('error-topic', listener);
+
+      busDispatch('error-topic', { data: 'test' });
+      unsubscribe();
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        topic: 'error-topic',
+        message: { data: 'test' },
+        listener,
+      });
+    });
+
+    it('should pass rejections of async listeners to onError', async () => {
+      const onError = vi.fn();
+      busSetErrorHandling({ onError });
+      const error = new Error('Async listener error');
+      const unsubscribe = busSubscribe('error-topic', async () => {
+        throw error;
+      });
+
+      busDispatch('error-topic', 'data');
+      unsubscribe();
+      await Promise.resolve();
+
+      expect(onError).toHaveBeenCalledWith(
+        error,
+        expect.objectContaining({ topic: 'error-topic', message: 'data' }),
+      );
+    });
+
+    it('should log rejections of async listeners by default', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const unsubscribe = busSubscribe('error-topic', () =>
+        Promise.reject(new Error('Async listener error')),
+      );
+
+      busDispatch('error-topic', 'data');
+      unsubscribe();
+      await Promise.resolve();
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'Event listener error:',
+        expect.any(Error),
+      );
+    });
+
+    it('should re-emit failures on the error topic', () => {
+      busSetErrorHandling({ errorTopic: 'bus.error' });
+      const error = new Error('Listener error');
+      const errorListener = vi.fn();
+      const unsubscribeError = busSubscribe('bus.error', errorListener);
+      const unsubscribe = busSubscribe('error-topic', () => {
+        throw error;
+      });
+
+      busDispatch('error-topic', 'data');
+      unsubscribe();
+      unsubscribeError();
+
+      expect(errorListener).toHaveBeenCalledWith(
+        expect.objectContaining({ error, topic: 'error-topic', message: 'data' }),
+        expect.anything(),
+      );
+    });
+
+    it('should not re-emit failures of error topic listeners', () => {
+      const onError = vi.fn();
+      busSetErrorHandling({ onError, errorTopic: 'bus.error' });
+      const errorListener = vi.fn(() => {
+        throw new Error('Error listener error');
+      });
+      const unsubscribe = busSubscribe('bus.error', errorListener);
+
+      busDispatch('bus.error', 'data');
+      unsubscribe();
+
+      expect(errorListener).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow listener errors after every listener ran', () => {
+      busSetErrorHandling({ rethrow: true });
+      const error = new Error('Listener error');
+      const successListener = vi.fn();
+      const unsubscribeError = busSubscribe('error-topic', () => {
+        throw error;
+      });
+      const unsubscribeSuccess = busSubscribe('error-topic', successListener);
+
+      expect(() => busDispatch('error-topic', 'data')).toThrow(error);
+      expect(successListener).toHaveBeenCalledTimes(1);
+      unsubscribeError();
+      unsubscribeSuccess();
+    });
+
+    it('should rethrow several listener errors as an AggregateError', () => {
+      busSetErrorHandling({ rethrow: true });
+      const unsubscribeFirst = busSubscribe('error-topic', () => {
+        throw new Error('First');
+      });
+      const unsubscribeSecond = busSubscribe('error-topic', () => {
+        throw new Error('Second');
+      });
+
+      expect(() => busDispatch('error-topic', 'data')).toThrow(AggregateError);
+      unsubscribeFirst();
+      unsubscribeSecond();
+    });
+
+    it('should restore console logging without options', () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      busSetErrorHandling({ onError: vi.fn() });
+      busSetErrorHandling();
+      const unsubscribe = busSubscribe('error-topic', () => {
+        throw new Error('Listener error');
+      });
+
+      busDispatch('error-topic', 'data');
+      unsubscribe();
+
+      expect(consoleSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('busDispatchAsync', () => {
+    it('should wait for async listeners to finish', async () => {
+      const calls: string[] = [];
+      const unsubscribeSlow = busSubscribe('save-all', async () => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        calls.push('slow');
+      });
+      const unsubscribeSync = busSubscribe('save-all', () => {
+        calls.push('sync');
+        return 'saved';
+      });
+
+      const result = await busDispatchAsync('save-all', undefined);
+      unsubscribeSlow();
+      unsubscribeSync();
+
+      expect(calls).toEqual(['sync', 'slow']);
+      expect(result.listenerCount).toBe(2);
+      expect(result.results).toEqual([
+        { status: 'fulfilled', value: undefined },
+        { status: 'fulfilled', value: 'saved' },
+      ]);
+      expect(result.errors).toEqual([]);
+    });
+
+    it('should leave rate limited listeners out of the result', async () => {
+      const debounced = vi.fn();
+      const unsubscribeDebounced = busSubscribe('save-all', debounced, {
+        debounce: 10,
+      });
+      const unsubscribeSync = busSubscribe('save-all', () => 'saved');
+
+      const result = await busDispatchAsync('save-all', undefined);
+      unsubscribeDebounced();
+      unsubscribeSync();
+
+      expect(debounced).not.toHaveBeenCalled();
+      expect(result.listenerCount).toBe(1);
+      expect(result.results).toEqual([{ status: 'fulfilled', value: 'saved' }]);
+    });
+
+    it('should report zero listeners when nobody handles the message', async () => {
+      await expect(busDispatchAsync('nobody-home', 'data')).resolves.toEqual({
+        listenerCount: 0,
+        results: [],
+        errors: [],
+        defaultPrevented: false,
+      });
+    });
+
+    it('should collect errors instead of reporting them', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const syncError = new Error('Sync error');
+      const asyncError = new Error('Async error');
+      const unsubscribeSync = busSubscribe('save-all', () => {
+        throw syncError;
+      });
+      const unsubscribeAsync = busSubscribe('save-all', async () => {
+        throw asyncError;
+      });
+
+      const result = await busDispatchAsync('save-all', undefined);
+      unsubscribeSync();
+      unsubscribeAsync();
+
+      expect(result.listenerCount).toBe(2);
+      expect(result.errors).toEqual([syncError, asyncError]);
+      expect(consoleSpy).not.toHaveBeenCalled();
+    });
+
+    it('should include pattern listeners', async () => {
+      const unsubscribeAll = busSubscribeAll(() => 'logged');
+      const unsubscribePattern = busSubscribePattern('other.*', () => 'skipped');
+
+      const result = await busDispatchAsync('save-all', undefined);
+      unsubscribeAll();
+      unsubscribePattern();
+
+      expect(result.listenerCount).toBe(1);
+      expect(result.results).toEqual([{ status: 'fulfilled', value: 'logged' }]);
+    });
+
+    it('should reject with a TimeoutError when listeners do not settle', async () => {
+      vi.useFakeTimers();
+      const unsubscribe = busSubscribe('save-all', () => new Promise(() => {}));
+
+      const promise = busDispatchAsync('save-all', undefined, { timeout: 100 });
+      vi.advanceTimersByTime(100);
+      unsubscribe();
+
+      await expect(promise).rejects.toMatchObject({ name: 'TimeoutError' });
+      vi.useRealTimers();
+    });
+
+    it('should report nothing when middleware drops the message', async () => {
+      const remove = busAddMiddleware(() => {});
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('save-all', listener);
+
+      const result = await busDispatchAsync('save-all', undefined);
+      remove();
+      unsubscribe();
+
+      expect(result.listenerCount).toBe(0);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should reject for an empty topic', async () => {
+      await expect(busDispatchAsync('', 'data')).rejects.toBeInstanceOf(
+        TypeError,
+      );
+    });
+  });
+
+  describe('priorities and propagation', () => {
+    it('should call listeners with a higher priority first', () => {
+      const calls: string[] = [];
+      const unsubscribers = [
+        busSubscribe('priority-topic', () => calls.push('default')),
+        busSubscribe('priority-topic', () => calls.push('low'), { priority: -1 }),
+        busSubscribe('priority-topic', () => calls.push('high'), { priority: 10 }),
+        busSubscribe('priority-topic', () => calls.push('default 2')),
+      ];
+
+      busDispatch('priority-topic', 'data');
+      for (const unsubscribe of unsubscribers) unsubscribe();
+
+      expect(calls).toEqual(['high', 'default', 'default 2', 'low']);
+    });
+
+    it('should stop the delivery to the remaining listeners', () => {
+      const guard = vi.fn(() => busCurrentDispatch()?.stopPropagation());
+      const listener = vi.fn();
+      const patternListener = vi.fn();
+      const unsubscribers = [
+        busSubscribe('priority-topic', listener),
+        busSubscribe('priority-topic', guard, { priority: 100 }),
+        busSubscribeAll(patternListener),
+      ];
+
+      busDispatch('priority-topic', 'data');
+      for (const unsubscribe of unsubscribers) unsubscribe();
+
+      expect(guard).toHaveBeenCalledWith('data', expect.anything());
+      expect(listener).not.toHaveBeenCalled();
+      expect(patternListener).not.toHaveBeenCalled();
+    });
+
+    it('should report cancelled messages', () => {
+      const unsubscribe = busSubscribe<IEventBus<{ to: string }>>(
+        'priority-topic',
+        ({ to }) => {
+          if (to === '/blocked') busCurrentDispatch()?.preventDefault();
+        },
+      );
+
+      expect(busDispatch('priority-topic', { to: '/blocked' })).toBe(false);
+      expect(busDispatch('priority-topic', { to: '/home' })).toBe(true);
+      unsubscribe();
+    });
+
+    it('should expose the topic and the cancelled state to later listeners', () => {
+      const seen: unknown[] = [];
+      const unsubscribers = [
+        busSubscribe('priority-topic', () => {
+          busCurrentDispatch()?.preventDefault();
+        }, { priority: 1 }),
+        busSubscribe('priority-topic', () => {
+          const control = busCurrentDispatch();
+          seen.push(control?.topic, control?.defaultPrevented);
+        }),
+      ];
+
+      busDispatch('priority-topic', 'data');
+      for (const unsubscribe of unsubscribers) unsubscribe();
+
+      expect(seen).toEqual(['priority-topic', true]);
+    });
+
+    it('should keep the control of nested dispatches separate', () => {
+      const listener = vi.fn();
+      const unsubscribers = [
+        busSubscribe('inner-topic', () => busCurrentDispatch()?.stopPropagation()),
+        busSubscribe('priority-topic', () => {
+          busDispatch('inner-topic', 'inner');
+        }, { priority: 1 }),
+        busSubscribe('priority-topic', listener),
+      ];
+
+      busDispatch('priority-topic', 'data');
+      for (const unsubscribe of unsubscribers) unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith('data', expect.anything());
+    });
+
+    it('should order pattern subscriptions by priority', () => {
+      const calls: string[] = [];
+      const unsubscribers = [
+        busSubscribePattern('priority.*', () => calls.push('pattern')),
+        busSubscribeAll(() => calls.push('all'), { priority: 5 }),
+      ];
+
+      busDispatch('priority.topic', 'data');
+      for (const unsubscribe of unsubscribers) unsubscribe();
+
+      expect(calls).toEqual(['all', 'pattern']);
+    });
+
+    it('should not call listeners removed during the delivery', () => {
+      const listener = vi.fn();
+      let unsubscribe = () => {};
+      const unsubscribeFirst = busSubscribe('priority-topic', () => unsubscribe(), {
+        priority: 1,
+      });
+      unsubscribe = busSubscribe('priority-topic', listener);
+
+      busDispatch('priority-topic', 'data');
+      unsubscribeFirst();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should pass the dispatch control to listeners', () => {
+      const topics: string[] = [];
+      const unsubscribers = [
+        busSubscribe('priority-topic', (_message, control) => {
+          control.preventDefault();
+        }),
+        busSubscribeAll((_envelope, control) => {
+          topics.push(control.topic);
+        }),
+      ];
+
+      const isNotCancelled = busDispatch('priority-topic', 'data');
+      for (const unsubscribe of unsubscribers) unsubscribe();
+
+      expect(isNotCancelled).toBe(false);
+      expect(topics).toEqual(['priority-topic']);
+    });
+
+    it('should keep the dispatch control after an await', async () => {
+      const seen: unknown[] = [];
+      const unsubscribe = busSubscribe(
+        'priority-topic',
+        async (_message, control) => {
+          control.preventDefault();
+          await Promise.resolve();
+          seen.push(control.topic, control.defaultPrevented);
+        },
+      );
+
+      await busDispatchAsync('priority-topic', 'data');
+      unsubscribe();
+
+      expect(seen).toEqual(['priority-topic', true]);
+    });
+
+    it('should pass the control to rate limited listeners', () => {
+      vi.useFakeTimers();
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('priority-topic', listener, {
+        debounce: 10,
+      });
+
+      busDispatch('priority-topic', 'data');
+      vi.advanceTimersByTime(10);
+      unsubscribe();
+      vi.useRealTimers();
+
+      expect(listener).toHaveBeenCalledWith(
+        'data',
+        expect.objectContaining({ topic: 'priority-topic' }),
+      );
+    });
+
+    it('should return undefined outside of a listener', () => {
+      expect(busCurrentDispatch()).toBeUndefined();
+    });
+
+    it('should report cancelled awaitable dispatches', async () => {
+      const unsubscribe = busSubscribe('priority-topic', () => {
+        busCurrentDispatch()?.preventDefault();
+      });
+
+      const result = await busDispatchAsync('priority-topic', 'data');
+      unsubscribe();
+
+      expect(result.defaultPrevented).toBe(true);
+    });
+  });
+
+  describe('inspection and history', () => {
+    afterEach(() => {
+      busSetHistory({ size: 0 });
+    });
+
+    it('should list the subscribed topics with their subscriber counts', () => {
+      const unsubscribers = [
+        busSubscribe('inspect-topic', () => {}),
+        busSubscribe('inspect-topic', () => {}),
+        busSubscribePattern('inspect.*', () => {}),
+      ];
+
+      const inspection = busInspect();
+      for (const unsubscribe of unsubscribers) unsubscribe();
+
+      expect(inspection.topics).toContainEqual({
+        topic: 'inspect-topic',
+        subscriberCount: 2,
+      });
+      expect(inspection.patterns).toContainEqual({
+        topic: 'inspect.*',
+        subscriberCount: 1,
+      });
+      expect(busInspect().topics).not.toContainEqual(
+        expect.objectContaining({ topic: 'inspect-topic' }),
+      );
+    });
+
+    it('should list sticky topics and the history size', () => {
+      busSetSticky('inspect-sticky');
+      busSetHistory({ size: 10 });
+
+      const inspection = busInspect();
+      busSetSticky('inspect-sticky', { size: 0 });
+
+      expect(inspection.stickyTopics).toContain('inspect-sticky');
+      expect(inspection.historySize).toBe(10);
+    });
+
+    it('should not record dispatches until the history is turned on', () => {
+      busDispatch('history-topic', 1);
+
+      expect(busGetHistory()).toEqual([]);
+      expect(busInspect().historySize).toBe(0);
+    });
+
+    it('should record dispatches with timestamps in a ring buffer', () => {
+      vi.spyOn(Date, 'now').mockReturnValue(1000);
+      busSetHistory({ size: 2 });
+
+      busDispatch('history-topic', 1);
+      busDispatch('history-topic', 2);
+      busDispatch('history-topic', 3);
+
+      expect(busGetHistory()).toEqual([
+        { topic: 'history-topic', message: 2, timestamp: 1000 },
+        { topic: 'history-topic', message: 3, timestamp: 1000 },
+      ]);
+    });
+
+    it('should clear the history and keep recording', () => {
+      busSetHistory();
+      busDispatch('history-topic', 1);
+      busClearHistory();
+      busDispatch('history-topic', 2);
+
+      expect(busGetHistory().map(({ message }) => message)).toEqual([2]);
+    });
+
+    it('should replay an exported history in order', () => {
+      busSetHistory();
+      busDispatch('history-topic', { id: 1n });
+      busDispatch('history-other-topic', 'second');
+      const exported = busExportHistory();
+      busSetHistory({ size: 0 });
+
+      const listener = vi.fn();
+      const unsubscribers = [
+        busSubscribe('history-topic', listener),
+        busSubscribe('history-other-topic', listener),
+      ];
+      busReplayHistory(exported);
+      for (const unsubscribe of unsubscribers) unsubscribe();
+
+      expect(listener).toHaveBeenNthCalledWith(1, { id: 1n }, expect.anything());
+      expect(listener).toHaveBeenNthCalledWith(2, 'second', expect.anything());
+    });
+
+    it('should reject a history that is not a list of entries', () => {
+      expect(() => busReplayHistory('{"topic":"history-topic"}')).toThrow(
+        TypeError,
+      );
+      expect(() =>
+        busReplayHistory([{ message: 1 }] as unknown as IEventBusHistoryEntry[]),
+      ).toThrow(TypeError);
+    });
+  });
+
+  describe('busSetValidator', () => {
+    const isUser = (value: unknown): value is { id: number; name: string } =>
+      isObject(value) && isNumber(value.id) && isString(value.name);
+
+    afterEach(() => {
+      busSetValidator('validated-topic');
+      busSetValidationEnabled(true);
+      busSetErrorHandling();
+    });
+
+    it('should deliver valid messages', () => {
+      busSetValidator('validated-topic', isUser);
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('validated-topic', listener);
+
+      busDispatch('validated-topic', { id: 1, name: 'John' });
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith(
+        { id: 1, name: 'John' },
+        expect.anything(),
+      );
+    });
+
+    it('should throw for invalid messages without delivering them', () => {
+      busSetValidator('validated-topic', isUser);
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('validated-topic', listener);
+
+      expect(() => busDispatch('validated-topic', { id: '1' })).toThrow(
+        'Invalid message for "validated-topic"',
+      );
+      unsubscribe();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should report invalid messages with onInvalid report', () => {
+      const onError = vi.fn();
+      busSetErrorHandling({ onError });
+      busSetValidator('validated-topic', isString, { onInvalid: 'report' });
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('validated-topic', listener);
+
+      busDispatch('validated-topic', 42);
+      unsubscribe();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(onError).toHaveBeenCalledWith(expect.any(TypeError), {
+        topic: 'validated-topic',
+        message: 42,
+        listener: isString,
+      });
+    });
+
+    it('should validate the message produced by middleware', () => {
+      busSetValidator('validated-topic', isNumber);
+      const remove = busAddMiddleware((context, next) => {
+        context.message = Number(context.message);
+        next();
+      });
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('validated-topic', listener);
+
+      busDispatch('validated-topic', '42');
+      remove();
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith(42, expect.anything());
+    });
+
+    it('should not retain invalid messages of sticky topics', () => {
+      busSetSticky('validated-topic');
+      busSetValidator('validated-topic', isNumber, { onInvalid: 'report' });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      busDispatch('validated-topic', 'not a number');
+      const retained = busGetRetained('validated-topic');
+      busSetSticky('validated-topic', { size: 0 });
+
+      expect(retained).toEqual([]);
+    });
+
+    it('should skip validation while it is disabled', () => {
+      busSetValidator('validated-topic', isUser);
+      busSetValidationEnabled(false);
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('validated-topic', listener);
+
+      busDispatch('validated-topic', 'anything');
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith('anything', expect.anything());
+    });
+
+    it('should reject awaitable dispatches of invalid messages', async () => {
+      busSetValidator('validated-topic', isUser);
+
+      await expect(
+        busDispatchAsync('validated-topic', null),
+      ).rejects.toBeInstanceOf(TypeError);
+    });
+  });
+
+  describe('rate limited subscriptions', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should throttle with the first and the latest message', () => {
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('limited-topic', listener, {
+        throttle: 100,
+      });
+
+      busDispatch('limited-topic', 1);
+      busDispatch('limited-topic', 2);
+      busDispatch('limited-topic', 3);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenLastCalledWith(1, expect.anything());
+
+      vi.advanceTimersByTime(100);
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenLastCalledWith(3, expect.anything());
+
+      vi.advanceTimersByTime(100);
+      busDispatch('limited-topic', 4);
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(3);
+      expect(listener).toHaveBeenLastCalledWith(4, expect.anything());
+    });
+
+    it('should debounce to the latest message', () => {
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('limited-topic', listener, {
+        debounce: 100,
+      });
+
+      busDispatch('limited-topic', 1);
+      vi.advanceTimersByTime(50);
+      busDispatch('limited-topic', 2);
+      vi.advanceTimersByTime(99);
+      expect(listener).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(1);
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(2, expect.anything());
+    });
+
+    it('should batch the latest message per animation frame', () => {
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('limited-topic', listener, {
+        batch: 'latest',
+      });
+
+      busDispatch('limited-topic', 1);
+      busDispatch('limited-topic', 2);
+      expect(listener).not.toHaveBeenCalled();
+
+      vi.advanceTimersByTime(20);
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(2, expect.anything());
+    });
+
+    it('should batch all messages of an animation frame', () => {
+      const listener = vi.fn<(messages: number[]) => void>();
+      const unsubscribe = busSubscribe<IEventBus<number>, { batch: 'all' }>(
+        'limited-topic',
+        listener,
+        { batch: 'all' },
+      );
+
+      busDispatch('limited-topic', 1);
+      busDispatch('limited-topic', 2);
+      vi.advanceTimersByTime(20);
+      busDispatch('limited-topic', 3);
+      vi.advanceTimersByTime(20);
+      unsubscribe();
+
+      expect(listener).toHaveBeenNthCalledWith(1, [1, 2], expect.anything());
+      expect(listener).toHaveBeenNthCalledWith(2, [3], expect.anything());
+    });
+
+    it('should drop pending calls on unsubscribe', () => {
+      const listener = vi.fn();
+      const unsubscribers = [
+        busSubscribe('limited-topic', listener, { throttle: 100 }),
+        busSubscribe('limited-topic', listener, { debounce: 100 }),
+        busSubscribe('limited-topic', listener, { batch: 'all' }),
+      ];
+
+      busDispatch('limited-topic', 1);
+      busDispatch('limited-topic', 2);
+      for (const unsubscribe of unsubscribers) unsubscribe();
+      vi.advanceTimersByTime(200);
+
+      // Only the leading call of the throttled listener
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should report errors of deferred listener calls', () => {
+      const onError = vi.fn();
+      busSetErrorHandling({ onError });
+      const error = new Error('Deferred error');
+      const listener = () => {
+        throw error;
+      };
+      const unsubscribe = busSubscribe('limited-topic', listener, {
+        debounce: 10,
+      });
+
+      busDispatch('limited-topic', 'data');
+      vi.advanceTimersByTime(10);
+      unsubscribe();
+      busSetErrorHandling();
+
+      expect(onError).toHaveBeenCalledWith(error, {
+        topic: 'limited-topic',
+        message: 'data',
+        listener,
+      });
+    });
+
+    it('should reject more than one rate limit', () => {
+      expect(() =>
+        busSubscribe('limited-topic', () => {}, { throttle: 10, debounce: 10 }),
+      ).toThrow(TypeError);
+    });
+  });
+
+  describe('abort signals', () => {
+    it('should remove the listener when the signal is aborted', () => {
+      const listener = vi.fn();
+      const controller = new AbortController();
+      busSubscribe('abort-topic', listener, { signal: controller.signal });
+
+      busDispatch('abort-topic', 1);
+      controller.abort();
+      busDispatch('abort-topic', 2);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(1, expect.anything());
+    });
+
+    it('should not subscribe with an already aborted signal', () => {
+      const listener = vi.fn();
+      const unsubscribe = busSubscribe('abort-topic', listener, {
+        signal: AbortSignal.abort(),
+      });
+
+      busDispatch('abort-topic', 1);
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(() => unsubscribe()).not.toThrow();
+    });
+
+    it('should stop listening to the signal after unsubscribing', () => {
+      const controller = new AbortController();
+      const removeEventListener = vi.spyOn(
+        controller.signal,
+        'removeEventListener',
+      );
+      const unsubscribe = busSubscribe('abort-topic', () => {}, {
+        signal: controller.signal,
+      });
+
+      unsubscribe();
+
+      expect(removeEventListener).toHaveBeenCalledWith(
+        'abort',
+        expect.any(Function),
+      );
+    });
+
+    it('should remove a busOnce listener when the signal is aborted', () => {
+      const listener = vi.fn();
+      const controller = new AbortController();
+      busOnce('abort-topic', listener, { signal: controller.signal });
+
+      controller.abort();
+      busDispatch('abort-topic', 1);
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    it('should remove pattern listeners when the signal is aborted', () => {
+      const patternListener = vi.fn();
+      const allListener = vi.fn();
+      const controller = new AbortController();
+      busSubscribePattern('abort:*', patternListener, {
+        signal: controller.signal,
+      });
+      busSubscribeAll(allListener, { signal: controller.signal });
+
+      controller.abort();
+      busDispatch('abort:topic', 1);
+
+      expect(patternListener).not.toHaveBeenCalled();
+      expect(allListener).not.toHaveBeenCalled();
+    });
+
+    it('should tear down a group of subscriptions with one controller', () => {
+      const bus = createEventBus({ target: new EventTarget() });
+      const controller = new AbortController();
+      const { signal } = controller;
+      bus.subscribe('first', () => {}, { signal });
+      bus.subscribe('second', () => {}, { signal, debounce: 10 });
+      bus.subscribePattern('group:*', () => {}, { signal });
+
+      controller.abort();
+
+      expect(bus.inspect()).toMatchObject({ topics: [], patterns: [] });
+    });
+
+    it('should reject a request with the abort reason and unsubscribe', async () => {
+      const bus = createEventBus({ target: new EventTarget() });
+      const controller = new AbortController();
+      const reason = new Error('Aborted');
+      const promise = bus.request('slow', null, { signal: controller.signal });
+
+      controller.abort(reason);
+
+      await expect(promise).rejects.toBe(reason);
+      expect(bus.inspect().topics).toEqual([]);
+    });
+
+    it('should reject a request immediately for an already aborted signal', async () => {
+      const reason = new Error('Aborted');
+      const responder = vi.fn();
+      const unsubscribe = busRespond('abort-request', responder);
+
+      await expect(
+        busRequest('abort-request', null, { signal: AbortSignal.abort(reason) }),
+      ).rejects.toBe(reason);
+      expect(responder).not.toHaveBeenCalled();
+      unsubscribe();
+    });
+  });
+
+  describe('payload modes', () => {
+    interface IPayload {
+      count: number;
+      nested: { items: number[] };
+    }
+    type TPayloadEvents = { 'payload-topic': IPayload };
+
+    const createPayload = (): IPayload => ({ count: 1, nested: { items: [1] } });
+
+    afterEach(() => {
+      busSetPayloadMode();
+      busSetPayloadMode(undefined, { topic: 'payload-topic' });
+      busSetMutationWarnings(false);
+    });
+
+    it('should share the dispatched object by default', () => {
+      const bus = createEventBus<TPayloadEvents>({ target: new EventTarget() });
+      bus.setMutationWarnings(false);
+      const received: IPayload[] = [];
+      bus.subscribe('payload-topic', (message) => received.push(message));
+      bus.subscribe('payload-topic', (message) => received.push(message));
+      const payload = createPayload();
+
+      bus.dispatch('payload-topic', payload);
+
+      expect(received[0]).toBe(payload);
+      expect(received[1]).toBe(payload);
+    });
+
+    it('should deep-freeze payloads in frozen mode', () => {
+      const onError = vi.fn();
+      busSetErrorHandling({ onError });
+      busSetPayloadMode('frozen');
+      const seen: number[] = [];
+      const unsubscribeFirst = busSubscribe<IEventBus<IPayload>>(
+        'payload-topic',
+        (message) => {
+          message.count = 2;
+        },
+      );
+      const unsubscribeSecond = busSubscribe<IEventBus<IPayload>>(
+        'payload-topic',
+        (message) => seen.push(message.count),
+      );
+      const payload = createPayload();
+
+      busDispatch('payload-topic', payload);
+      unsubscribeFirst();
+      unsubscribeSecond();
+      busSetErrorHandling();
+
+      expect(seen).toEqual([1]);
+      expect(onError).toHaveBeenCalledWith(
+        expect.any(TypeError),
+        expect.objectContaining({ topic: 'payload-topic' }),
+      );
+      expect(Object.isFrozen(payload)).toBe(false);
+      expect(Object.isFrozen(payload.nested.items)).toBe(false);
+    });
+
+    it('should share one frozen copy between the listeners', () => {
+      const bus = createEventBus<TPayloadEvents>({
+        target: new EventTarget(),
+        payloadMode: 'frozen',
+      });
+      const received: IPayload[] = [];
+      bus.subscribe('payload-topic', (message) => received.push(message));
+      bus.subscribe('payload-topic', (message) => received.push(message));
+      const payload = createPayload();
+
+      bus.dispatch('payload-topic', payload);
+      payload.nested.items.push(2);
+
+      expect(received[0]).not.toBe(payload);
+      expect(received[1]).toBe(received[0]);
+      expect(Object.isFrozen(received[0].nested.items)).toBe(true);
+      expect(received[0].nested.items).toEqual([1]);
+    });
+
+    it('should give every listener its own copy in cloned mode', () => {
+      const bus = createEventBus<TPayloadEvents>({
+        target: new EventTarget(),
+        payloadMode: 'cloned',
+      });
+      const received: IPayload[] = [];
+      bus.subscribe('payload-topic', (message) => {
+        message.nested.items.push(2);
+        received.push(message);
+      });
+      bus.subscribe('payload-topic', (message) => received.push(message));
+      const payload = createPayload();
+
+      bus.dispatch('payload-topic', payload);
+
+      expect(received[0]).not.toBe(payload);
+      expect(received[0].nested.items).toEqual([1, 2]);
+      expect(received[1]).toEqual(createPayload());
+      expect(payload).toEqual(createPayload());
+    });
+
+    it('should clone payloads for pattern subscriptions and sticky replays', () => {
+      const bus = createEventBus<TPayloadEvents>({
+        target: new EventTarget(),
+        payloadMode: 'cloned',
+      });
+      const envelopes: IEventBusEnvelope[] = [];
+      const replayed: IPayload[] = [];
+      bus.setSticky('payload-topic');
+      bus.subscribeAll((envelope) => envelopes.push(envelope));
+      const payload = createPayload();
+
+      bus.dispatch('payload-topic', payload);
+      bus.subscribe('payload-topic', (message) => replayed.push(message));
+
+      expect(envelopes[0].message).not.toBe(payload);
+      expect(envelopes[0].message).toEqual(payload);
+      expect(replayed[0]).not.toBe(payload);
+      expect(replayed[0]).toEqual(payload);
+    });
+
+    it('should set the mode of a single topic', () => {
+      const bus = createEventBus<TPayloadEvents & { other: IPayload }>({
+        target: new EventTarget(),
+        payloadMode: 'frozen',
+      });
+      const received: IPayload[] = [];
+      bus.subscribe('payload-topic', (message) => received.push(message));
+      bus.subscribe('other', (message) => received.push(message));
+      bus.setPayloadMode('cloned', { topic: 'payload-topic' });
+      const payload = createPayload();
+      const other = createPayload();
+
+      bus.dispatch('payload-topic', payload);
+      bus.dispatch('other', other);
+      bus.setPayloadMode(undefined, { topic: 'payload-topic' });
+      bus.dispatch('payload-topic', payload);
+
+      expect(received[0]).not.toBe(payload);
+      expect(Object.isFrozen(received[0])).toBe(false);
+      expect(received[1]).toEqual(other);
+      expect(Object.isFrozen(received[1])).toBe(true);
+      expect(Object.isFrozen(received[2])).toBe(true);
+      expect(Object.isFrozen(other)).toBe(false);
+    });
+
+    it('should not change the global bus from the payloadMode option', () => {
+      // @ts-expect-error - payloadMode needs a target
+      expect(() => createEventBus({ payloadMode: 'frozen' })).toThrow(
+        TypeError,
+      );
+
+      const payload = createPayload();
+      busDispatch('payload-topic', payload);
+
+      expect(Object.isFrozen(payload)).toBe(false);
+    });
+
+    it('should warn when a listener mutates a shared payload', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      busSetMutationWarnings(true);
+      const unsubscribe = busSubscribe<IEventBus<IPayload>>(
+        'payload-topic',
+        (message) => {
+          message.count += 1;
+        },
+      );
+
+      busDispatch('payload-topic', createPayload());
+      busSetMutationWarnings(false);
+      busDispatch('payload-topic', createPayload());
+      unsubscribe();
+
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn).toHaveBeenCalledWith(
+        expect.stringContaining('"payload-topic"'),
+      );
+    });
+
+    it('should not warn for listeners that only read the payload', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      busSetMutationWarnings(true);
+      const unsubscribe = busSubscribe('payload-topic', () => {});
+
+      busDispatch('payload-topic', createPayload());
+      unsubscribe();
+
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('should not check for mutations unless turned on', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const stringify = vi.spyOn(JSON, 'stringify');
+      const unsubscribe = busSubscribe<IEventBus<IPayload>>(
+        'payload-topic',
+        (message) => {
+          message.count += 1;
+        },
+      );
+
+      busDispatch('payload-topic', createPayload());
+      unsubscribe();
+
+      expect(stringify).not.toHaveBeenCalled();
+      expect(warn).not.toHaveBeenCalled();
+    });
+
+    it('should not check rate limited listeners for mutations', () => {
+      vi.useFakeTimers();
+      const stringify = vi.spyOn(JSON, 'stringify');
+      busSetMutationWarnings(true);
+      const unsubscribe = busSubscribe('payload-topic', () => {}, {
+        debounce: 10,
+      });
+
+      busDispatch('payload-topic', createPayload());
+      vi.advanceTimersByTime(10);
+      unsubscribe();
+      vi.useRealTimers();
+
+      expect(stringify).not.toHaveBeenCalled();
+    });
+  });
 });
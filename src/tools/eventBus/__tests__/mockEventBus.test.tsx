@@ -0,0 +1,148 @@
+import {
+  act,
+  cleanup,
+  render,
+} from '@testing-library/react';
+import {
+  afterEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import {
+  BusProvider,
+  busDispatch,
+  busSubscribe,
+  createMockEventBus,
+  useBusDispatch,
+  useEventBus,
+} from '../';
+
+import type {
+  IEventBus,
+  IEventBusMock,
+} from '../types';
+
+describe('createMockEventBus', () => {
+  let mock: IEventBusMock | undefined;
+
+  afterEach(() => {
+    mock?.restore();
+    mock = undefined;
+    cleanup();
+  });
+
+  it('should record dispatches on the global bus', () => {
+    mock = createMockEventBus();
+
+    busDispatch('user-saved', { id: 1, name: 'John' });
+    busDispatch('user-saved', { id: 2, name: 'Jane' });
+
+    expect(mock.getMessages('user-saved')).toEqual([
+      { id: 1, name: 'John' },
+      { id: 2, name: 'Jane' },
+    ]);
+    expect(mock.getDispatches()).toMatchObject([
+      { topic: 'user-saved', timestamp: expect.any(Number) },
+      { topic: 'user-saved', timestamp: expect.any(Number) },
+    ]);
+  });
+
+  it('should clear the recordings on reset', () => {
+    mock = createMockEventBus();
+    busDispatch('user-saved', { id: 1 });
+
+    mock.reset();
+
+    expect(mock.getDispatches()).toEqual([]);
+    expect(() => mock?.expectNotDispatched('user-saved')).not.toThrow();
+  });
+
+  it('should stop recording on restore', () => {
+    mock = createMockEventBus();
+    mock.restore();
+
+    busDispatch('user-saved', { id: 1 });
+
+    expect(mock.getDispatches()).toEqual([]);
+  });
+
+  it('should match partial messages', () => {
+    mock = createMockEventBus();
+    busDispatch('user-saved', {
+      id: 1,
+      profile: { name: 'John', tags: ['admin'] },
+      savedAt: new Date('2024-01-01'),
+    });
+
+    expect(() => mock?.expectDispatched('user-saved')).not.toThrow();
+    expect(() => mock?.expectDispatched('user-saved', { id: 1 })).not.toThrow();
+    expect(() =>
+      mock?.expectDispatched('user-saved', {
+        profile: { tags: ['admin'] },
+        savedAt: new Date('2024-01-01'),
+      }),
+    ).not.toThrow();
+    expect(() => mock?.expectDispatched('user-saved', { id: 2 })).toThrow(
+      'Expected a dispatch on "user-saved" matching {"id":2}',
+    );
+    expect(() => mock?.expectDispatched('user-deleted')).toThrow(
+      'Expected a dispatch on "user-deleted", received none',
+    );
+  });
+
+  it('should throw when an unexpected message was dispatched', () => {
+    mock = createMockEventBus();
+    busDispatch('user-deleted', 1);
+
+    expect(() => mock?.expectNotDispatched('user-deleted')).toThrow(
+      'Expected no dispatch on "user-deleted", received 1',
+    );
+  });
+
+  it('should deliver simulated messages without recording them', () => {
+    mock = createMockEventBus();
+    const listener = vi.fn();
+    const unsubscribe = busSubscribe('user-loaded', (message) => {
+      listener(message);
+      busDispatch('user-seen', message);
+    });
+
+    mock.simulate('user-loaded', { id: 1 });
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith({ id: 1 });
+    expect(() => mock?.expectNotDispatched('user-loaded')).not.toThrow();
+    expect(() => mock?.expectDispatched('user-seen', { id: 1 })).not.toThrow();
+  });
+
+  it('should record the bus of a BusProvider', () => {
+    mock = createMockEventBus({ target: new EventTarget() });
+    const scoped = mock;
+    const received = vi.fn();
+
+    const UserForm = () => {
+      const dispatch = useBusDispatch();
+      useEventBus<IEventBus<{ id: number }>>('user-loaded', (user) => {
+        received(user);
+        dispatch('user-saved', user);
+      });
+      return null;
+    };
+
+    render(
+      <BusProvider target={scoped.target}>
+        <UserForm />
+      </BusProvider>,
+    );
+    act(() => {
+      scoped.simulate('user-loaded', { id: 1 });
+    });
+    busDispatch('user-saved', { id: 2 });
+
+    expect(received).toHaveBeenCalledWith({ id: 1 });
+    expect(scoped.getMessages('user-saved')).toEqual([{ id: 1 }]);
+  });
+});
@@ -0,0 +1,256 @@
+import {
+  afterEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import {
+  createEventBus,
+  createPostMessageBridge,
+} from '../';
+
+import type { IEventBusBridge } from '../types';
+
+type TestEvents = {
+  'job.start': { id: number };
+  'job.done': { id: number };
+  'job.secret': string;
+};
+
+const waitForPort = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+describe('createPostMessageBridge', () => {
+  const bridges: IEventBusBridge[] = [];
+  const ports: MessagePort[] = [];
+
+  const createSides = () => {
+    const { port1, port2 } = new MessageChannel();
+    ports.push(port1, port2);
+
+    const mainTarget = new EventTarget();
+    const workerTarget = new EventTarget();
+    const main = createEventBus<TestEvents>({ target: mainTarget });
+    const worker = createEventBus<TestEvents>({ target: workerTarget });
+
+    const connectMain = () => {
+      const bridge = createPostMessageBridge({
+        endpoint: port1,
+        sendTopics: ['job.start'],
+        receiveTopics: ['job.done'],
+        target: mainTarget,
+      });
+      bridges.push(bridge);
+      return bridge;
+    };
+    const connectWorker = () => {
+      const bridge = createPostMessageBridge({
+        endpoint: port2,
+        sendTopics: ['job.*'],
+        receiveTopics: ['job.start'],
+        target: workerTarget,
+      });
+      bridges.push(bridge);
+      return bridge;
+    };
+
+    return { main, worker, connectMain, connectWorker };
+  };
+
+  afterEach(() => {
+    for (const bridge of bridges.splice(0)) {
+      bridge.close();
+    }
+    for (const port of ports.splice(0)) {
+      port.close();
+    }
+  });
+
+  it('should forward messages in both directions', async () => {
+    const { main, worker, connectMain, connectWorker } = createSides();
+    connectMain();
+    connectWorker();
+    await waitForPort();
+
+    const onStart = vi.fn();
+    const onDone = vi.fn();
+    worker.subscribe('job.start', onStart);
+    main.subscribe('job.done', onDone);
+
+    main.dispatch('job.start', { id: 1 });
+    worker.dispatch('job.done', { id: 1 });
+    await waitForPort();
+
+    expect(onStart).toHaveBeenCalledWith({ id: 1 }, expect.anything());
+    expect(onDone).toHaveBeenCalledWith({ id: 1 }, expect.anything());
+  });
+
+  it('should apply the topic allowlist of each direction', async () => {
+    const { main, worker, connectMain, connectWorker } = createSides();
+    connectMain();
+    connectWorker();
+    await waitForPort();
+
+    const onSecret = vi.fn();
+    const onDone = vi.fn();
+    main.subscribe('job.secret', onSecret);
+    worker.subscribe('job.done', onDone);
+
+    // Sent by the worker, but not accepted by the main side
+    worker.dispatch('job.secret', 'data');
+    // Not sent by the main side
+    main.dispatch('job.done', { id: 2 });
+    await waitForPort();
+
+    expect(onSecret).not.toHaveBeenCalled();
+    expect(onDone).not.toHaveBeenCalled();
+  });
+
+  it('should queue messages until the other side is ready', async () => {
+    const { main, worker, connectMain, connectWorker } = createSides();
+    connectMain();
+    const onStart = vi.fn();
+    worker.subscribe('job.start', onStart);
+
+    main.dispatch('job.start', { id: 1 });
+    main.dispatch('job.start', { id: 2 });
+    await waitForPort();
+    expect(onStart).not.toHaveBeenCalled();
+
+    connectWorker();
+    await waitForPort();
+
+    expect(onStart.mock.calls.map(([message]) => message)).toEqual([
+      { id: 1 },
+      { id: 2 },
+    ]);
+  });
+
+  it('should not echo received messages back', async () => {
+    const { main, worker, connectMain, connectWorker } = createSides();
+    connectMain();
+    connectWorker();
+    await waitForPort();
+
+    const onMainStart = vi.fn();
+    const onWorkerStart = vi.fn();
+    main.subscribe('job.start', onMainStart);
+    worker.subscribe('job.start', onWorkerStart);
+
+    main.dispatch('job.start', { id: 1 });
+    await waitForPort();
+
+    expect(onMainStart).toHaveBeenCalledTimes(1);
+    expect(onWorkerStart).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop forwarding once closed', async () => {
+    const { main, worker, connectMain, connectWorker } = createSides();
+    const bridge = connectMain();
+    connectWorker();
+    await waitForPort();
+
+    const onStart = vi.fn();
+    worker.subscribe('job.start', onStart);
+    bridge.close();
+    main.dispatch('job.start', { id: 1 });
+    await waitForPort();
+
+    expect(onStart).not.toHaveBeenCalled();
+  });
+
+  describe('window endpoints', () => {
+    const createWindowEndpoint = () => {
+      const endpoint = { postMessage: vi.fn() } as unknown as Window & {
+        postMessage: ReturnType<typeof vi.fn>;
+      };
+      Object.assign(endpoint, { window: endpoint });
+      return endpoint;
+    };
+
+    const receiveFrom = (source: Window, data: unknown, origin: string) => {
+      const event = new MessageEvent('message', { data, origin });
+      Object.defineProperty(event, 'source', { value: source });
+      window.dispatchEvent(event);
+    };
+
+    it('should post to the target origin and greet the other side', () => {
+      const endpoint = createWindowEndpoint();
+      const bridge = createPostMessageBridge({
+        endpoint,
+        allowedOrigins: ['https://parent.example.com'],
+        sendTopics: ['job.start'],
+      });
+      bridges.push(bridge);
+
+      expect(endpoint.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ handshake: 'hello', sourceId: bridge.id }),
+        'https://parent.example.com',
+      );
+    });
+
+    it('should only accept messages from allowed origins and the endpoint', () => {
+      const endpoint = createWindowEndpoint();
+      const target = new EventTarget();
+      const bus = createEventBus<TestEvents>({ target });
+      const bridge = createPostMessageBridge({
+        endpoint,
+        allowedOrigins: ['https://parent.example.com'],
+        receiveTopics: ['job.start'],
+        target,
+      });
+      bridges.push(bridge);
+
+      const onStart = vi.fn();
+      bus.subscribe('job.start', onStart);
+
+      const data = {
+        type: '@pivanov/utils:event-bus',
+        sourceId: 'parent',
+        topic: 'job.start',
+        message: JSON.stringify({ id: 1 }),
+      };
+      receiveFrom(endpoint, data, 'https://evil.example.com');
+      receiveFrom(createWindowEndpoint(), data, 'https://parent.example.com');
+      receiveFrom(endpoint, data, 'https://parent.example.com');
+
+      expect(onStart).toHaveBeenCalledTimes(1);
+      expect(onStart).toHaveBeenCalledWith({ id: 1 }, expect.anything());
+    });
+
+    it('should answer a hello and flush queued messages', () => {
+      const endpoint = createWindowEndpoint();
+      const target = new EventTarget();
+      const bus = createEventBus<TestEvents>({ target });
+      const bridge = createPostMessageBridge({
+        endpoint,
+        allowedOrigins: ['https://parent.example.com'],
+        sendTopics: ['job.start'],
+        target,
+      });
+      bridges.push(bridge);
+
+      bus.dispatch('job.start', { id: 1 });
+      expect(endpoint.postMessage).toHaveBeenCalledTimes(1);
+
+      receiveFrom(
+        endpoint,
+        { type: '@pivanov/utils:event-bus', sourceId: 'parent', handshake: 'hello' },
+        'https://parent.example.com',
+      );
+
+      expect(endpoint.postMessage).toHaveBeenCalledTimes(3);
+      expect(endpoint.postMessage).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ handshake: 'ready' }),
+        'https://parent.example.com',
+      );
+      expect(endpoint.postMessage).toHaveBeenNthCalledWith(
+        3,
+        expect.objectContaining({ topic: 'job.start' }),
+        'https://parent.example.com',
+      );
+    });
+  });
+});
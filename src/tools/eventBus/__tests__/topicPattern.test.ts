@@ -0,0 +1,51 @@
+import {
+  describe,
+  expect,
+  it,
+} from 'vitest';
+
+import { compileTopicPattern } from '../topicPattern';
+
+describe('compileTopicPattern', () => {
+  it('should match literal topics exactly', () => {
+    const matches = compileTopicPattern('user.updated');
+
+    expect(matches('user.updated')).toBe(true);
+    expect(matches('user.updated.name')).toBe(false);
+    expect(matches('user')).toBe(false);
+  });
+
+  it('should match exactly one segment with *', () => {
+    const matches = compileTopicPattern('user.*');
+
+    expect(matches('user.updated')).toBe(true);
+    expect(matches('user.deleted')).toBe(true);
+    expect(matches('user')).toBe(false);
+    expect(matches('user.profile.updated')).toBe(false);
+    expect(matches('account.updated')).toBe(false);
+  });
+
+  it('should match any number of segments with **', () => {
+    const matches = compileTopicPattern('user.**');
+
+    expect(matches('user')).toBe(true);
+    expect(matches('user.updated')).toBe(true);
+    expect(matches('user.profile.updated')).toBe(true);
+    expect(matches('account.updated')).toBe(false);
+  });
+
+  it('should support wildcards in the middle of a pattern', () => {
+    expect(compileTopicPattern('*.updated')('user.updated')).toBe(true);
+    expect(compileTopicPattern('*.updated')('user.deleted')).toBe(false);
+    expect(compileTopicPattern('app.**.ready')('app.ready')).toBe(true);
+    expect(compileTopicPattern('app.**.ready')('app.auth.user.ready')).toBe(true);
+    expect(compileTopicPattern('app.**.ready')('app.auth.done')).toBe(false);
+  });
+
+  it('should match every topic with **', () => {
+    const matches = compileTopicPattern('**');
+
+    expect(matches('ping')).toBe(true);
+    expect(matches('user.profile.updated')).toBe(true);
+  });
+});
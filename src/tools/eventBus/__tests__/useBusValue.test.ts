@@ -0,0 +1,85 @@
+import {
+  act,
+  cleanup,
+  renderHook,
+} from '@testing-library/react';
+import {
+  afterEach,
+  describe,
+  expect,
+  it,
+} from 'vitest';
+
+import {
+  busDispatch,
+  busSetSticky,
+  createEventBus,
+} from '../';
+import { useBusValue } from '../useBusValue';
+
+describe('useBusValue', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('should return the initial value until a message arrives', () => {
+    const { result } = renderHook(() => useBusValue('value-topic', 'initial'));
+
+    expect(result.current).toBe('initial');
+
+    act(() => {
+      busDispatch('value-topic', 'next');
+    });
+
+    expect(result.current).toBe('next');
+  });
+
+  it('should start with the last retained message of a sticky topic', () => {
+    busSetSticky('sticky-value-topic', { size: 2 });
+    busDispatch('sticky-value-topic', 'first');
+    busDispatch('sticky-value-topic', 'second');
+
+    const { result } = renderHook(() =>
+      useBusValue('sticky-value-topic', 'initial'),
+    );
+    busSetSticky('sticky-value-topic', { size: 0 });
+
+    expect(result.current).toBe('second');
+  });
+
+  it('should share the same value between components', () => {
+    const first = renderHook(() => useBusValue('shared-value-topic', 0));
+    const second = renderHook(() => useBusValue('shared-value-topic', 0));
+
+    act(() => {
+      busDispatch('shared-value-topic', 42);
+    });
+
+    expect(first.result.current).toBe(42);
+    expect(second.result.current).toBe(42);
+  });
+
+  it('should stop updating after unmount', () => {
+    const { result, unmount } = renderHook(() =>
+      useBusValue('value-topic', 'initial'),
+    );
+
+    unmount();
+    busDispatch('value-topic', 'next');
+
+    expect(result.current).toBe('initial');
+  });
+
+  it('should read typed values from an isolated bus', () => {
+    const bus = createEventBus<{ count: number }>({
+      target: new EventTarget(),
+    });
+    const { result } = renderHook(() => bus.useBusValue('count', 0));
+
+    act(() => {
+      bus.dispatch('count', 3);
+    });
+
+    expect(result.current).toBe(3);
+  });
+});
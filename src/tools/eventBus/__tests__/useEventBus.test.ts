@@ -11,7 +11,10 @@ import {
   vi,
 } from 'vitest';
 
-import { busDispatch } from '../';
+import {
+  busDispatch,
+  busSetSticky,
+} from '../';
 import { useEventBus } from '../useEventBus';
 
 import type { TEventBusListener } from '../types';
@@ -31,7 +34,7 @@ describe('useEventBus', () => {
       busDispatch('test-topic', message);
     });
 
-    expect(mockCallback).toHaveBeenCalledWith(message);
+    expect(mockCallback).toHaveBeenCalledWith(message, expect.anything());
     expect(mockCallback).toHaveBeenCalledTimes(1);
   });
 
@@ -66,5 +69,101 @@ describe('useEventBus', () => {
     expect(mockCallback).not.toHaveBeenCalled();
   });
 
+  it('should receive the retained message of a sticky topic on mount', () => {
+    busSetSticky('sticky-hook-topic');
+    busDispatch('sticky-hook-topic', 'dark');
+
+    const mockCallback = vi.fn();
+    renderHook(() => useEventBus('sticky-hook-topic', mockCallback));
+    busSetSticky('sticky-hook-topic', { size: 0 });
+
+    expect(mockCallback).toHaveBeenCalledWith('dark', expect.anything());
+  });
+
+  it('should subscribe with the given priority', () => {
+    const calls: string[] = [];
+    renderHook(() => useEventBus('priority-hook-topic', () => calls.push('default')));
+    renderHook(() =>
+      useEventBus('priority-hook-topic', () => calls.push('guard'), [], {
+        priority: 10,
+      }),
+    );
+
+    act(() => {
+      busDispatch('priority-hook-topic', 'test');
+    });
+
+    expect(calls).toEqual(['guard', 'default']);
+  });
+
+  it('should keep the subscription across renders with inline listeners', () => {
+    const addSpy = vi.spyOn(window, 'addEventListener');
+    const { rerender } = renderHook(({ count }) =>
+      useEventBus('stable-hook-topic', () => count), {
+      initialProps: { count: 0 },
+    });
+
+    rerender({ count: 1 });
+    rerender({ count: 2 });
+
+    expect(addSpy).toHaveBeenCalledTimes(1);
+    addSpy.mockRestore();
+  });
+
+  it('should call the listener of the latest render', () => {
+    const calls: number[] = [];
+    const { rerender } = renderHook(({ count }) =>
+      useEventBus('stable-hook-topic', () => calls.push(count)), {
+      initialProps: { count: 0 },
+    });
+
+    rerender({ count: 1 });
+    act(() => {
+      busDispatch('stable-hook-topic', 'test');
+    });
+
+    expect(calls).toEqual([1]);
+  });
+
+  it('should pass rate limits to the subscription', () => {
+    vi.useFakeTimers();
+    const mockCallback = vi.fn();
+    const { unmount } = renderHook(() =>
+      useEventBus('limited-hook-topic', mockCallback, [], { debounce: 100 }),
+    );
+
+    act(() => {
+      busDispatch('limited-hook-topic', 1);
+      busDispatch('limited-hook-topic', 2);
+      vi.advanceTimersByTime(100);
+    });
+    act(() => {
+      busDispatch('limited-hook-topic', 3);
+    });
+    unmount();
+    vi.advanceTimersByTime(100);
+    vi.useRealTimers();
+
+    expect(mockCallback).toHaveBeenCalledTimes(1);
+    expect(mockCallback).toHaveBeenCalledWith(2, expect.anything());
+  });
+
+  it('should unsubscribe when the signal is aborted', () => {
+    const mockCallback = vi.fn();
+    const controller = new AbortController();
+    renderHook(() =>
+      useEventBus('abort-hook-topic', mockCallback, [], {
+        signal: controller.signal,
+      }),
+    );
+
+    act(() => {
+      controller.abort();
+      busDispatch('abort-hook-topic', 1);
+    });
+
+    expect(mockCallback).not.toHaveBeenCalled();
+  });
+
   // Add more test cases as needed
 });
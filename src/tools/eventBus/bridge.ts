@@ -0,0 +1,134 @@
+import { isObject } from '../../assertion';
+import { createEventBusCore } from './eventBus';
+import { compileTopicPattern } from './topicPattern';
+import {
+  deserializeMessage,
+  serializeMessage,
+} from './utils';
+
+import type { IEventBusEnvelope } from './types';
+
+/**
+ * Identifies messages that were sent by an event bus bridge
+ */
+export const BRIDGE_MESSAGE_TYPE = '@pivanov/utils:event-bus';
+
+/**
+ * Message sent between the two sides of an event bus bridge
+ */
+export interface IBridgeMessage {
+  type: typeof BRIDGE_MESSAGE_TYPE;
+  /** Id of the bridge that sent the message */
+  sourceId: string;
+  topic: string;
+  /** The serialized message payload */
+  message: string | undefined;
+}
+
+/**
+ * Handshake sent between the two sides of a postMessage bridge
+ */
+export interface IBridgeHandshakeMessage {
+  type: typeof BRIDGE_MESSAGE_TYPE;
+  /** Id of the bridge that sent the handshake */
+  sourceId: string;
+  handshake: 'hello' | 'ready';
+}
+
+export const isBridgeMessage = (data: unknown): data is IBridgeMessage => {
+  return (
+    isObject(data) &&
+    data.type === BRIDGE_MESSAGE_TYPE &&
+    typeof data.sourceId === 'string' &&
+    typeof data.topic === 'string'
+  );
+};
+
+export const isBridgeHandshakeMessage = (
+  data: unknown,
+): data is IBridgeHandshakeMessage => {
+  return (
+    isObject(data) &&
+    data.type === BRIDGE_MESSAGE_TYPE &&
+    typeof data.sourceId === 'string' &&
+    (data.handshake === 'hello' || data.handshake === 'ready')
+  );
+};
+
+/**
+ * Compiles a list of topics and topic patterns into a single matcher
+ */
+export const compileTopicAllowlist = (
+  topics: string[],
+): ((topic: string) => boolean) => {
+  const matchers = topics.map(compileTopicPattern);
+  return (topic) => matchers.some((matches) => matches(topic));
+};
+
+interface IBridgeConnectionOptions {
+  /** Id of this side of the bridge */
+  id: string;
+  /** The EventTarget of the bus to bridge */
+  target?: EventTarget;
+  /** Topics and topic patterns sent to the other side */
+  sendTopics: string[];
+  /** Topics and topic patterns accepted from the other side */
+  receiveTopics: string[];
+  /** Delivers a message to the other side */
+  send: (data: IBridgeMessage) => void;
+}
+
+export interface IBridgeConnection {
+  /** Re-dispatches a message from the other side on the local bus */
+  receive: (data: IBridgeMessage) => void;
+  /** Stops forwarding local messages */
+  close: () => void;
+}
+
+/**
+ * Connects a bus to the transport of a bridge: forwards the allowed local
+ * messages and re-dispatches the allowed incoming ones, without sending the
+ * incoming messages back
+ */
+export const connectBridge = (
+  options: IBridgeConnectionOptions,
+): IBridgeConnection => {
+  const { id, target, send } = options;
+  const bus = createEventBusCore({ target });
+  const isSendAllowed = compileTopicAllowlist(options.sendTopics);
+  const isReceiveAllowed = compileTopicAllowlist(options.receiveTopics);
+  // The message being re-dispatched, messages that listeners dispatch while
+  // handling it are still forwarded
+  let received: IEventBusEnvelope | undefined;
+
+  const unsubscribe = bus.subscribeAll(({ topic, message }) => {
+    // Messages that just came in from the other side are not sent back
+    const isReceived =
+      received?.topic === topic && Object.is(received.message, message);
+    if (isReceived || !isSendAllowed(topic)) return;
+
+    send({
+      type: BRIDGE_MESSAGE_TYPE,
+      sourceId: id,
+      topic,
+      message: serializeMessage(message),
+    });
+  });
+
+  const receive = (data: IBridgeMessage) => {
+    if (data.sourceId === id || !isReceiveAllowed(data.topic)) return;
+
+    const previous = received;
+    received = { topic: data.topic, message: deserializeMessage(data.message) };
+    try {
+      bus.dispatch(received.topic, received.message);
+    } finally {
+      received = previous;
+    }
+  };
+
+  return {
+    receive,
+    close: unsubscribe,
+  };
+};
@@ -0,0 +1,74 @@
+import {
+  connectBridge,
+  isBridgeMessage,
+} from './bridge';
+import { createId } from './utils';
+
+import type {
+  IEventBusBridge,
+  IEventBusBroadcastBridgeOptions,
+} from './types';
+
+const DEFAULT_CHANNEL_NAME = '@pivanov/utils:event-bus';
+
+/**
+ * Forwards the selected topics of a bus to the other tabs of the same origin
+ * over BroadcastChannel, and re-dispatches the messages they send locally
+ *
+ * Messages are serialized to JSON, BigInt values survive the round trip.
+ * Every message carries the id of the sending bridge, so messages are never
+ * echoed back. Where BroadcastChannel is not available the bridge does nothing.
+ *
+ * @param options - The topics to forward, the channel name and the bus target
+ * @returns The bridge with its `id` and a `close` function
+ *
+ * @example
+ * ```ts
+ * const bridge = createBroadcastBridge({
+ *   topics: ['logout', 'cart.*', 'feature-flags.**'],
+ * });
+ *
+ * // Reaches every other tab of the same origin
+ * busDispatch('logout', undefined);
+ *
+ * // Later
+ * bridge.close();
+ * ```
+ */
+export const createBroadcastBridge = (
+  options: IEventBusBroadcastBridgeOptions,
+): IEventBusBridge => {
+  const { topics, channelName = DEFAULT_CHANNEL_NAME, target } = options;
+  const id = createId();
+
+  if (typeof BroadcastChannel === 'undefined' || !topics.length) {
+    return { id, close: () => {} };
+  }
+
+  const channel = new BroadcastChannel(channelName);
+  const connection = connectBridge({
+    id,
+    target,
+    sendTopics: topics,
+    receiveTopics: topics,
+    send: (data) => channel.postMessage(data),
+  });
+
+  const onMessage = (event: MessageEvent) => {
+    if (isBridgeMessage(event.data)) {
+      connection.receive(event.data);
+    }
+  };
+  channel.addEventListener('message', onMessage);
+
+  let isClosed = false;
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+    connection.close();
+    channel.removeEventListener('message', onMessage);
+    channel.close();
+  };
+
+  return { id, close };
+};
@@ -0,0 +1,218 @@
+import { createEventBusCore } from './eventBus';
+import { useBusStore } from './useBusValue';
+import { useBusSubscription } from './useEventBus';
+
+import type {
+  IEventBusEnvelope,
+  IEventBusInstance,
+  IEventBusDispatchAsyncOptions,
+  IEventBusListenerOptions,
+  IEventBusDispatchResult,
+  IEventBusRequestOptions,
+  IEventBusSubscribeOptions,
+  IEventBusWaitForOptions,
+  TEventBusListener,
+  TEventBusOptions,
+  TEventBusResponder,
+  TEventBusSubscribedMessage,
+  TEventBusUnsubscribe,
+  TEventMap,
+  TEventMapEnvelope,
+  TEventMapMessageArgs,
+  TEventMapTopic,
+  TEventRequestMap,
+  TEventRequestTopic,
+} from './types';
+
+/**
+ * Creates an event bus bound to an event map, so the message type of every
+ * dispatch and listener is inferred from the topic
+ *
+ * Without a target the bus shares the global channel used by `busDispatch`
+ * and `busSubscribe`. Pass any EventTarget to scope it, e.g. a fresh
+ * `new EventTarget()` per micro-frontend, worker or test.
+ *
+ * @template M - Map of topic names to message payload types
+ * @template R - Map of request topic names to request and response types
+ * @param options - Bus options
+ * @returns The typed bus: `dispatch`, `subscribe`, `once`, `waitFor`, pattern
+ * subscriptions, requests, middleware, sticky topics, dispatch control,
+ * inspection, validation, payload modes, `useEventBus` and `useBusValue`
+ * @throws {TypeError} When `validators` or `payloadMode` are given without a
+ * `target`, which the option types only accept with one
+ *
+ * @example
+ * ```ts
+ * type AppEvents = {
+ *   'user-updated': { id: number; name: string };
+ *   'logout': undefined;
+ * };
+ *
+ * const bus = createEventBus<AppEvents>();
+ *
+ * bus.subscribe('user-updated', (user) => console.log(user.name));
+ * bus.dispatch('user-updated', { id: 1, name: 'John' });
+ * bus.dispatch('logout');
+ *
+ * // @ts-expect-error - payload does not match the topic
+ * bus.dispatch('user-updated', { userId: 1 });
+ *
+ * // Isolated bus, works in Node, SSR and workers
+ * const localBus = createEventBus<AppEvents>({ target: new EventTarget() });
+ *
+ * // The event map is inferred from the validators
+ * const validatedBus = createEventBus({
+ *   target: new EventTarget(),
+ *   validators: { 'count-changed': isNumber, 'title-changed': isString },
+ * });
+ * validatedBus.subscribe('count-changed', (count) => count.toFixed(2));
+ *
+ * // Listeners get their own copy and cannot affect each other
+ * const safeBus = createEventBus<AppEvents>({
+ *   target: new EventTarget(),
+ *   payloadMode: 'cloned',
+ * });
+ * ```
+ */
+export const createEventBus = <
+  M extends TEventMap,
+  R extends TEventRequestMap = TEventRequestMap,
+>(
+  options: TEventBusOptions<M> = {},
+): IEventBusInstance<M, R> => {
+  const core = createEventBusCore(options as TEventBusOptions);
+
+  const dispatch = <K extends TEventMapTopic<M>>(
+    topic: K,
+    ...args: TEventMapMessageArgs<M, K>
+  ): boolean => {
+    return core.dispatch(topic, args[0]);
+  };
+
+  const dispatchAsync = <K extends TEventMapTopic<M>>(
+    topic: K,
+    message: M[K],
+    options?: IEventBusDispatchAsyncOptions,
+  ): Promise<IEventBusDispatchResult> => {
+    return core.dispatchAsync(topic, message, options);
+  };
+
+  const subscribe = <
+    K extends TEventMapTopic<M>,
+    O extends IEventBusSubscribeOptions = IEventBusSubscribeOptions,
+  >(
+    topic: K,
+    listener: TEventBusListener<TEventBusSubscribedMessage<M[K], O>>,
+    options?: O,
+  ): TEventBusUnsubscribe => {
+    return core.subscribe(topic, listener, options);
+  };
+
+  const once = <K extends TEventMapTopic<M>>(
+    topic: K,
+    listener: TEventBusListener<M[K]>,
+    options?: IEventBusListenerOptions,
+  ): TEventBusUnsubscribe => {
+    return core.once(topic, listener, options);
+  };
+
+  const waitFor = <K extends TEventMapTopic<M>>(
+    topic: K,
+    options?: IEventBusWaitForOptions<M[K]>,
+  ): Promise<M[K]> => {
+    return core.waitFor(topic, options);
+  };
+
+  const subscribePattern = (
+    pattern: string,
+    listener: TEventBusListener<TEventMapEnvelope<M>>,
+    options?: IEventBusListenerOptions,
+  ): TEventBusUnsubscribe => {
+    return core.subscribePattern(
+      pattern,
+      listener as TEventBusListener<IEventBusEnvelope>,
+      options,
+    );
+  };
+
+  const subscribeAll = (
+    listener: TEventBusListener<TEventMapEnvelope<M>>,
+    options?: IEventBusListenerOptions,
+  ): TEventBusUnsubscribe => {
+    return core.subscribeAll(
+      listener as TEventBusListener<IEventBusEnvelope>,
+      options,
+    );
+  };
+
+  const request = <K extends TEventRequestTopic<R>>(
+    topic: K,
+    payload: R[K]['request'],
+    options?: IEventBusRequestOptions,
+  ): Promise<R[K]['response']> => {
+    return core.request(topic, payload, options);
+  };
+
+  const respond = <K extends TEventRequestTopic<R>>(
+    topic: K,
+    handler: TEventBusResponder<R[K]['request'], R[K]['response']>,
+  ): TEventBusUnsubscribe => {
+    return core.respond(topic, handler);
+  };
+
+  const getRetained = <K extends TEventMapTopic<M>>(topic: K): M[K][] => {
+    return core.getRetained(topic);
+  };
+
+  const getHistory: IEventBusInstance<M, R>['getHistory'] = () => {
+    return core.getHistory() as ReturnType<
+      IEventBusInstance<M, R>['getHistory']
+    >;
+  };
+
+  const useEventBus: IEventBusInstance<M, R>['useEventBus'] = (
+    topic,
+    listener,
+    deps,
+    options,
+  ) => {
+    useBusSubscription(core.subscribe, topic, listener, deps, options);
+  };
+
+  const useBusValue: IEventBusInstance<M, R>['useBusValue'] = (
+    topic,
+    initial,
+  ) => {
+    return useBusStore(subscribe, getRetained, topic, initial);
+  };
+
+  return {
+    dispatch,
+    dispatchAsync,
+    subscribe,
+    once,
+    waitFor,
+    subscribePattern,
+    subscribeAll,
+    request,
+    respond,
+    addMiddleware: core.addMiddleware,
+    setErrorHandling: core.setErrorHandling,
+    setSticky: core.setSticky,
+    getRetained,
+    clearRetained: core.clearRetained,
+    currentDispatch: core.currentDispatch,
+    inspect: core.inspect,
+    setHistory: core.setHistory,
+    getHistory,
+    clearHistory: core.clearHistory,
+    exportHistory: core.exportHistory,
+    replayHistory: core.replayHistory,
+    setValidator: core.setValidator,
+    setValidationEnabled: core.setValidationEnabled,
+    setPayloadMode: core.setPayloadMode,
+    setMutationWarnings: core.setMutationWarnings,
+    useEventBus,
+    useBusValue,
+  };
+};
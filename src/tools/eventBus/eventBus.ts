@@ -1,7 +1,50 @@
+import { isObject } from '../../assertion';
+import {
+  type TCloneable,
+  deepClone,
+} from '../deepClone';
+import { isBrowser } from '../dom';
+import { createRateLimitedListener } from './rateLimit';
+import { compileTopicPattern } from './topicPattern';
+import {
+  createId,
+  deserializeMessage,
+  freezeMessage,
+  serializeMessage,
+} from './utils';
+
 import type {
   IEventBus,
+  IEventBusCore,
+  IEventBusDispatchAsyncOptions,
+  IEventBusDispatchContext,
+  IEventBusDispatchControl,
+  IEventBusDispatchResult,
+  IEventBusEnvelope,
+  IEventBusErrorContext,
+  IEventBusErrorHandlingOptions,
+  IEventBusErrorMessage,
+  IEventBusHistoryEntry,
+  IEventBusHistoryOptions,
+  IEventBusInspection,
+  IEventBusListenerOptions,
+  IEventBusMiddlewareOptions,
+  IEventBusPayloadModeOptions,
+  IEventBusRequestOptions,
+  IEventBusRequestSpec,
+  IEventBusStickyOptions,
+  IEventBusSubscribeOptions,
+  IEventBusTopicInfo,
+  IEventBusValidatorOptions,
+  IEventBusWaitForOptions,
   TEventBusListener,
+  TEventBusMiddleware,
+  TEventBusOptions,
+  TEventBusPayloadMode,
+  TEventBusResponder,
+  TEventBusSubscribedMessage,
   TEventBusUnsubscribe,
+  TEventBusValidator,
 } from './types';
 
 const simpleHash = (id: string, key = '\uD83D\uDE80') => {
@@ -20,73 +63,1831 @@ const generateSaltedTopic = (topic: string) => {
   return `${signature}::${topic}`;
 };
 
-const createCustomEventListener = <M>(listener: TEventBusListener<M>): EventListener => {
+/**
+ * Event name carrying every message to pattern subscriptions, it is only
+ * dispatched on targets that have at least one pattern subscription
+ */
+const WILDCARD_EVENT = generateSaltedTopic('\u2733::wildcard');
+
+const DEFAULT_REQUEST_TIMEOUT = 5000;
+
+/**
+ * Requests and responses travel as regular messages on reserved topics, so
+ * they can be bridged like any other topic
+ */
+const getRequestTopic = (topic: string) => `rpc:request:${topic}`;
+const getResponseTopic = (topic: string) => `rpc:response:${topic}`;
+
+interface IRequestMessage<P> {
+  id: string;
+  payload: P;
+}
+
+interface IResponseMessage<R> {
+  id: string;
+  result?: R;
+  /** Only name and message are sent, so errors survive bridges */
+  error?: { name: string; message: string };
+}
+
+const toErrorData = (error: unknown): IResponseMessage<never>['error'] => {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message };
+  }
+  return { name: 'Error', message: String(error) };
+};
+
+const fromErrorData = (data: { name: string; message: string }): Error => {
+  return Object.assign(new Error(data.message), { name: data.name });
+};
+
+interface IStickyTopic {
+  size: number;
+  messages: unknown[];
+}
+
+/**
+ * Retained messages of sticky topics, kept per target so every bus over the
+ * same target replays the same messages
+ */
+const stickyTopics = new WeakMap<EventTarget, Map<string, IStickyTopic>>();
+
+const getStickyTopics = (target: EventTarget) => {
+  let topics = stickyTopics.get(target);
+  if (!topics) {
+    topics = new Map();
+    stickyTopics.set(target, topics);
+  }
+  return topics;
+};
+
+interface IMiddlewareEntry {
+  middleware: TEventBusMiddleware;
+  matches: (topic: string) => boolean;
+}
+
+/**
+ * Dispatch middleware, kept per target in registration order
+ */
+const middlewareEntries = new WeakMap<EventTarget, IMiddlewareEntry[]>();
+
+const DEFAULT_HISTORY_SIZE = 100;
+
+interface IHistory {
+  size: number;
+  entries: IEventBusHistoryEntry[];
+}
+
+/**
+ * Recent dispatches, only recorded for targets with history turned on
+ */
+const histories = new WeakMap<EventTarget, IHistory>();
+
+interface IValidatorEntry {
+  validator: TEventBusValidator;
+  onInvalid: NonNullable<IEventBusValidatorOptions['onInvalid']>;
+}
+
+interface IValidation {
+  isEnabled: boolean;
+  validators: Map<string, IValidatorEntry>;
+}
+
+/**
+ * Message validators, kept per target and topic
+ */
+const validations = new WeakMap<EventTarget, IValidation>();
+
+const getValidation = (target: EventTarget) => {
+  let validation = validations.get(target);
+  if (!validation) {
+    validation = { isEnabled: true, validators: new Map() };
+    validations.set(target, validation);
+  }
+  return validation;
+};
+
+interface IPayloadPolicy {
+  mode: TEventBusPayloadMode;
+  topicModes: Map<string, TEventBusPayloadMode>;
+  isMutationWarningEnabled: boolean;
+}
+
+/**
+ * How listeners receive payloads, kept per target
+ */
+const payloadPolicies = new WeakMap<EventTarget, IPayloadPolicy>();
+
+const getPayloadPolicy = (target: EventTarget) => {
+  let policy = payloadPolicies.get(target);
+  if (!policy) {
+    policy = {
+      mode: 'shared',
+      topicModes: new Map(),
+      isMutationWarningEnabled: false,
+    };
+    payloadPolicies.set(target, policy);
+  }
+  return policy;
+};
+
+const isHistoryEntry = (value: unknown): value is IEventBusHistoryEntry => {
+  return isObject(value) && typeof value.topic === 'string';
+};
+
+/**
+ * Creates the event carrying a message, falls back to a plain Event with a
+ * `detail` property where CustomEvent is not available (older Node versions)
+ */
+const createBusEvent = (type: string, detail: unknown): Event => {
+  const init = { bubbles: true, cancelable: true };
+  if (typeof CustomEvent === 'function') {
+    return new CustomEvent(type, { ...init, detail });
+  }
+  return Object.assign(new Event(type, init), { detail });
+};
+
+const isBusEvent = (event: unknown): event is CustomEvent => {
+  if (typeof CustomEvent === 'function') {
+    return event instanceof CustomEvent;
+  }
+  return event instanceof Event && 'detail' in event;
+};
+
+const isPromiseLike = (value: unknown): value is PromiseLike<unknown> => {
+  return (
+    typeof (value as PromiseLike<unknown> | undefined)?.then === 'function'
+  );
+};
+
+interface IDelivery {
+  /** Listener errors to rethrow once the delivery is done */
+  errors: unknown[];
+  /** Listener results, only collected by awaitable dispatches */
+  results?: Promise<unknown>[];
+  /** Passed to the listeners, and returned by `currentDispatch` */
+  control: IEventBusDispatchControl;
+  isPropagationStopped: boolean;
+  isDefaultPrevented: boolean;
+  /** How the listeners receive the message, `'shared'` when not set */
+  payloadMode?: TEventBusPayloadMode;
+  /** Warn when a listener mutates the shared message */
+  isMutationChecked?: boolean;
+}
+
+/**
+ * Deliveries in progress, the last one belongs to the listeners running now
+ */
+const deliveries: IDelivery[] = [];
+
+const isPropagationStopped = () => {
+  return deliveries[deliveries.length - 1]?.isPropagationStopped ?? false;
+};
+
+interface IListenerEntry {
+  /** The topic or topic pattern, for inspection */
+  name: string;
+  listener: EventListener;
+  priority: number;
+  isRemoved: boolean;
+}
+
+/**
+ * Listeners per target and event name, sorted by descending priority
+ */
+const listenerEntries = new WeakMap<EventTarget, Map<string, IListenerEntry[]>>();
+
+/**
+ * Events already delivered to the listeners of their event name
+ */
+const deliveredEvents = new WeakSet<Event>();
+
+const hasListeners = (target: EventTarget, type: string) => {
+  return !!listenerEntries.get(target)?.get(type)?.length;
+};
+
+/**
+ * Adds a listener in priority order. EventTarget only calls listeners in
+ * registration order, so every subscription adds its own DOM listener and the
+ * first one to receive an event delivers it to all listeners of the event name
+ */
+const addListener = (
+  target: EventTarget,
+  type: string,
+  name: string,
+  listener: EventListener,
+  priority = 0,
+): TEventBusUnsubscribe => {
+  let entriesByType = listenerEntries.get(target);
+  if (!entriesByType) {
+    entriesByType = new Map();
+    listenerEntries.set(target, entriesByType);
+  }
+  const entries = entriesByType.get(type) ?? [];
+  entriesByType.set(type, entries);
+
+  const entry: IListenerEntry = {
+    name,
+    listener,
+    priority,
+    isRemoved: false,
+  };
+  const index = entries.findIndex((item) => item.priority < priority);
+  entries.splice(index === -1 ? entries.length : index, 0, entry);
+
+  const deliverInOrder = (event: Event) => {
+    if (!isBusEvent(event) || deliveredEvents.has(event)) return;
+    deliveredEvents.add(event);
+
+    // Listeners added while delivering only receive the next message
+    for (const item of [...entries]) {
+      if (isPropagationStopped()) break;
+      if (!item.isRemoved) item.listener(event);
+    }
+  };
+  target.addEventListener(type, deliverInOrder);
+
+  return () => {
+    if (entry.isRemoved) return;
+    entry.isRemoved = true;
+    entries.splice(entries.indexOf(entry), 1);
+    if (!entries.length) {
+      entriesByType.delete(type);
+    }
+    target.removeEventListener(type, deliverInOrder);
+  };
+};
+
+const throwCollectedErrors = (errors: unknown[]) => {
+  if (errors.length === 1) {
+    throw errors[0];
+  }
+  if (errors.length > 1) {
+    throw new AggregateError(errors, 'Multiple event listeners failed');
+  }
+};
+
+/**
+ * Runs the listeners of a delivery. EventTarget swallows listener errors,
+ * so they are collected and rethrown once every listener ran
+ */
+const runDelivery = (
+  topic: string,
+  run: (delivery: IDelivery) => void,
+  results?: Promise<unknown>[],
+): IDelivery => {
+  const delivery: IDelivery = {
+    errors: [],
+    results,
+    control: {
+      topic,
+      get defaultPrevented() {
+        return delivery.isDefaultPrevented;
+      },
+      stopPropagation: () => {
+        delivery.isPropagationStopped = true;
+      },
+      preventDefault: () => {
+        delivery.isDefaultPrevented = true;
+      },
+    },
+    isPropagationStopped: false,
+    isDefaultPrevented: false,
+  };
+
+  deliveries.push(delivery);
+  try {
+    run(delivery);
+  } finally {
+    deliveries.pop();
+  }
+  throwCollectedErrors(delivery.errors);
+  return delivery;
+};
+
+/**
+ * Applies the payload policy of the target and topic to a delivery
+ * @returns The message to deliver, in frozen mode a frozen copy shared by the
+ * listeners, so the dispatcher keeps a writable object
+ */
+const applyPayloadPolicy = <M>(
+  delivery: IDelivery,
+  target: EventTarget,
+  topic: string,
+  message: M,
+): M => {
+  const policy = getPayloadPolicy(target);
+  const mode = policy.topicModes.get(topic) ?? policy.mode;
+
+  delivery.payloadMode = mode;
+  delivery.isMutationChecked =
+    mode === 'shared' &&
+    policy.isMutationWarningEnabled &&
+    typeof message === 'object' &&
+    message !== null;
+  if (mode === 'frozen') {
+    return freezeMessage(deepClone(message as TCloneable) as M);
+  }
+  return message;
+};
+
+/**
+ * Serializes a message to detect mutations, messages that cannot be
+ * serialized are not checked
+ */
+const snapshotMessage = (message: unknown): string | undefined => {
+  try {
+    return serializeMessage(message);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Wraps a listener so that thrown errors and rejected promises of async
+ * listeners are reported instead of breaking the other listeners. During an
+ * awaitable dispatch the outcome is collected instead of reported
+ */
+const createCustomEventListener = <M>(
+  listener: TEventBusListener<M>,
+  onError: (error: unknown, message: M) => void,
+  accepts?: (message: M) => boolean,
+  isDeferred = false,
+): EventListener => {
   return (event: Event) => {
-    if (!(event instanceof CustomEvent)) return;
+    const delivery = deliveries[deliveries.length - 1];
+    // Bus events are only dispatched during a delivery
+    if (!isBusEvent(event) || !delivery) return;
+    if (accepts && !accepts(event.detail as M)) return;
+
+    const message = (
+      delivery.payloadMode === 'cloned'
+        ? deepClone(event.detail as TCloneable)
+        : event.detail
+    ) as M;
+
+    // Rate limited listeners run later, so they are neither checked for
+    // mutations nor awaited by awaitable dispatches
+    const snapshot =
+      !isDeferred && delivery.isMutationChecked
+        ? snapshotMessage(message)
+        : undefined;
+    const results = isDeferred ? undefined : delivery.results;
     try {
-      listener(event.detail);
+      const result: unknown = listener(message, delivery.control);
+      if (results) {
+        results.push(Promise.resolve(result));
+      } else if (isPromiseLike(result)) {
+        result.then(undefined, (error) => onError(error, message));
+      }
     } catch (error) {
+      if (results) {
+        results.push(Promise.reject(error));
+      } else {
+        onError(error, message);
+      }
+    }
+
+    if (snapshot !== undefined && snapshotMessage(message) !== snapshot) {
       // biome-ignore lint/suspicious/noConsole: Intended debug output
-      console.error('Event listener error:', error);
+      console.warn(
+        `A listener mutated the message of "${delivery.control.topic}", use setPayloadMode to protect it`,
+      );
     }
   };
 };
 
 /**
- * Dispatches a message to all listeners subscribed to the given topic
- *
- * @template T - The type of the message payload
- * @param topic - The topic/channel to dispatch to
- * @param message - The message payload to send
- *
- * @example
- * ```ts
- * busDispatch('user-updated', { id: 1, name: 'John' });
- * ```
+ * Calls a listener outside of a delivery, e.g. after a rate limit, and
+ * reports thrown errors and rejected promises
  */
-export const busDispatch = <T extends IEventBus>(
-  topic: T['topic'],
-  message: T['message'],
-): void => {
-  if (!topic) return;
-  const hashedTopic = generateSaltedTopic(topic);
-  window.dispatchEvent(
-    new CustomEvent(hashedTopic, {
-      detail: message,
-      bubbles: true,
-      cancelable: false,
-    }),
-  );
+const callListener = <M>(
+  listener: TEventBusListener<M>,
+  message: M,
+  control: IEventBusDispatchControl,
+  onError: (error: unknown, message: M) => void,
+) => {
+  try {
+    const result: unknown = listener(message, control);
+    if (isPromiseLike(result)) {
+      result.then(undefined, (error) => onError(error, message));
+    }
+  } catch (error) {
+    onError(error, message);
+  }
 };
 
 /**
- * Subscribes to messages on a specific topic
- *
- * @template T - The type of the message payload
- * @param topic - The topic/channel to subscribe to
- * @param listener - Callback function that will be called with the message payload
- * @returns An unsubscribe function that can be called to remove the subscription
- *
- * @example
- * ```ts
- * const unsubscribe = busSubscribe('user-updated', (message) => {
- *   console.log('User updated:', message);
- * });
- *
- * // Later when you want to unsubscribe
- * unsubscribe();
- * ```
+ * Ties a subscription to an abort signal
+ * @returns The unsubscribe function, which also stops listening to the signal
  */
-export const busSubscribe = <T extends IEventBus>(
-  topic: IEventBus['topic'],
-  listener: TEventBusListener<T['message']>,
+const bindSignal = (
+  unsubscribe: TEventBusUnsubscribe,
+  signal?: AbortSignal,
 ): TEventBusUnsubscribe => {
-  if (!topic || typeof listener !== 'function') {
-    return () => {};
+  if (!signal) return unsubscribe;
+
+  signal.addEventListener('abort', unsubscribe, { once: true });
+  return () => {
+    signal.removeEventListener('abort', unsubscribe);
+    unsubscribe();
+  };
+};
+
+/**
+ * Error handling options, kept per target
+ */
+const errorHandlingOptions = new WeakMap<
+  EventTarget,
+  IEventBusErrorHandlingOptions
+>();
+
+let fallbackTarget: EventTarget | null = null;
+
+/**
+ * Resolves the target of the global bus: `window` in browsers, the global
+ * scope in workers, and a shared in-memory EventTarget everywhere else
+ */
+export const getGlobalTarget = (): EventTarget => {
+  if (isBrowser()) {
+    return window;
+  }
+  const scope = globalThis as unknown as Partial<EventTarget>;
+  if (typeof scope.addEventListener === 'function') {
+    return scope as EventTarget;
+  }
+  fallbackTarget ??= new EventTarget();
+  return fallbackTarget;
+};
+
+/**
+ * Internal factory for an untyped bus over an EventTarget
+ * @param options - Bus options, the global target is used when no target is given
+ */
+export const createEventBusCore = (
+  options: TEventBusOptions = {},
+): IEventBusCore => {
+  // Validators and the payload mode belong to the target, without one they
+  // would change the global bus for every other caller
+  if (options.validators && !options.target) {
+    throw new TypeError('validators need their own target');
+  }
+  if (options.payloadMode && !options.target) {
+    throw new TypeError('payloadMode needs its own target');
   }
 
-  const customEventListener = createCustomEventListener<T['message']>(listener);
-  const hashedTopic = generateSaltedTopic(topic);
-  window.addEventListener(hashedTopic, customEventListener);
-  return () => window.removeEventListener(hashedTopic, customEventListener);
+  const getTarget = () => options.target ?? getGlobalTarget();
+
+  const reportListenerError = (
+    target: EventTarget,
+    error: unknown,
+    context: IEventBusErrorContext,
+  ) => {
+    const options = errorHandlingOptions.get(target);
+    const { onError, errorTopic, rethrow = false } = options ?? {};
+
+    if (!onError && !errorTopic && !rethrow) {
+      // biome-ignore lint/suspicious/noConsole: Intended debug output
+      console.error('Event listener error:', error);
+      return;
+    }
+
+    onError?.(error, context);
+
+    // Failures of error topic listeners are not re-emitted to avoid loops
+    if (errorTopic && context.topic !== errorTopic) {
+      const errorMessage: IEventBusErrorMessage = { error, ...context };
+      dispatch(errorTopic, errorMessage);
+    }
+
+    if (rethrow) {
+      const delivery = deliveries[deliveries.length - 1];
+      if (!delivery) {
+        throw error;
+      }
+      delivery.errors.push(error);
+    }
+  };
+
+  /**
+   * Checks a message against the validator of its topic, invalid messages
+   * throw or are reported, and are never delivered
+   */
+  const isValidMessage = (
+    target: EventTarget,
+    topic: string,
+    message: unknown,
+  ): boolean => {
+    const validation = validations.get(target);
+    const entry = validation?.isEnabled && validation.validators.get(topic);
+    if (!entry || entry.validator(message)) {
+      return true;
+    }
+
+    const error = new TypeError(`Invalid message for "${topic}"`);
+    if (entry.onInvalid === 'throw') {
+      throw error;
+    }
+    reportListenerError(target, error, {
+      topic,
+      message,
+      listener: entry.validator,
+    });
+    return false;
+  };
+
+  const deliver = <M>(
+    target: EventTarget,
+    topic: string,
+    message: M,
+    results?: Promise<unknown>[],
+  ): boolean => {
+    if (!isValidMessage(target, topic, message)) {
+      return true;
+    }
+    const sticky = stickyTopics.get(target)?.get(topic);
+    if (sticky) {
+      sticky.messages.push(message);
+      if (sticky.messages.length > sticky.size) {
+        sticky.messages.splice(0, sticky.messages.length - sticky.size);
+      }
+    }
+
+    const delivery = runDelivery(
+      topic,
+      (delivery) => {
+        const payload = applyPayloadPolicy(delivery, target, topic, message);
+        const hashedTopic = generateSaltedTopic(topic);
+        if (!target.dispatchEvent(createBusEvent(hashedTopic, payload))) {
+          delivery.isDefaultPrevented = true;
+        }
+
+        if (
+          !delivery.isPropagationStopped &&
+          hasListeners(target, WILDCARD_EVENT)
+        ) {
+          const envelope: IEventBusEnvelope<M> = { topic, message: payload };
+          if (!target.dispatchEvent(createBusEvent(WILDCARD_EVENT, envelope))) {
+            delivery.isDefaultPrevented = true;
+          }
+        }
+      },
+      results,
+    );
+    return !delivery.isDefaultPrevented;
+  };
+
+  const send = <M>(
+    topic: string,
+    message: M,
+    results?: Promise<unknown>[],
+  ): boolean => {
+    const target = getTarget();
+
+    const history = histories.get(target);
+    if (history) {
+      history.entries.push({ topic, message, timestamp: Date.now() });
+      if (history.entries.length > history.size) {
+        history.entries.splice(0, history.entries.length - history.size);
+      }
+    }
+
+    const entries = middlewareEntries.get(target);
+    if (!entries?.length) {
+      return deliver(target, topic, message, results);
+    }
+
+    // Middleware added or removed while dispatching applies to the next dispatch
+    const pipeline = entries.filter((entry) => entry.matches(topic));
+    const context: IEventBusDispatchContext<M> = { topic, message };
+    // Messages dropped by middleware count as not cancelled
+    let isNotCancelled = true;
+    let isReturned = false;
+    let isLateWarned = false;
+
+    const run = (index: number) => {
+      const entry = pipeline[index];
+      if (!entry) {
+        isNotCancelled = deliver(target, topic, context.message, results);
+        return;
+      }
+
+      let isNextCalled = false;
+      entry.middleware(context as IEventBusDispatchContext, () => {
+        if (isNextCalled) return;
+        isNextCalled = true;
+        if (isReturned && !isLateWarned) {
+          isLateWarned = true;
+          // biome-ignore lint/suspicious/noConsole: Intended debug output
+          console.warn(
+            `Middleware called next() for "${topic}" after the dispatch returned, call it synchronously`,
+          );
+        }
+        run(index + 1);
+      });
+    };
+    try {
+      run(0);
+    } finally {
+      isReturned = true;
+    }
+    return isNotCancelled;
+  };
+
+  const dispatch = <M>(topic: string, message: M): boolean => {
+    if (!topic) return true;
+    return send(topic, message);
+  };
+
+  const dispatchAsync = async <M>(
+    topic: string,
+    message: M,
+    options: IEventBusDispatchAsyncOptions = {},
+  ): Promise<IEventBusDispatchResult> => {
+    if (!topic) {
+      throw new TypeError('A topic is required to dispatch a message');
+    }
+
+    const { timeout } = options;
+    const results: Promise<unknown>[] = [];
+    const isNotCancelled = send(topic, message, results);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const settled = Promise.allSettled(results);
+    const timedOut = new Promise<never>((_resolve, reject) => {
+      if (timeout === undefined) return;
+      timer = setTimeout(() => {
+        reject(
+          new DOMException(
+            `Listeners of "${topic}" did not settle within ${timeout}ms`,
+            'TimeoutError',
+          ),
+        );
+      }, timeout);
+    });
+
+    try {
+      const outcomes = await Promise.race([settled, timedOut]);
+      return {
+        listenerCount: outcomes.length,
+        results: outcomes,
+        errors: outcomes
+          .filter((outcome) => outcome.status === 'rejected')
+          .map((outcome) => (outcome as PromiseRejectedResult).reason),
+        defaultPrevented: !isNotCancelled,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  const subscribe = <M>(
+    topic: string,
+    listener: TEventBusListener<M>,
+    options: IEventBusSubscribeOptions = {},
+  ): TEventBusUnsubscribe => {
+    const { signal } = options;
+    if (!topic || typeof listener !== 'function' || signal?.aborted) {
+      return () => {};
+    }
+
+    const target = getTarget();
+    const onError = (error: unknown, message: unknown) => {
+      reportListenerError(target, error, { topic, message, listener });
+    };
+    const rateLimited = createRateLimitedListener(
+      (message, control) => {
+        callListener(
+          listener as TEventBusListener<unknown>,
+          message,
+          control,
+          onError,
+        );
+      },
+      options,
+    );
+    const customEventListener = createCustomEventListener(
+      rateLimited?.listener ?? (listener as TEventBusListener<unknown>),
+      onError,
+      undefined,
+      rateLimited !== undefined,
+    );
+    const hashedTopic = generateSaltedTopic(topic);
+    const removeListener = addListener(
+      target,
+      hashedTopic,
+      topic,
+      customEventListener,
+      options.priority,
+    );
+
+    let isSubscribed = true;
+    const unsubscribe = bindSignal(() => {
+      isSubscribed = false;
+      removeListener();
+      rateLimited?.cancel();
+    }, signal);
+
+    // Replay retained messages of sticky topics to the new subscriber
+    const retained = stickyTopics.get(target)?.get(topic)?.messages ?? [];
+    if (retained.length) {
+      runDelivery(topic, (delivery) => {
+        for (const message of [...retained]) {
+          if (!isSubscribed) break;
+          const payload = applyPayloadPolicy(delivery, target, topic, message);
+          customEventListener(createBusEvent(hashedTopic, payload));
+        }
+      });
+    }
+
+    return unsubscribe;
+  };
+
+  const once = <M>(
+    topic: string,
+    listener: TEventBusListener<M>,
+    options?: IEventBusListenerOptions,
+  ): TEventBusUnsubscribe => {
+    if (typeof listener !== 'function') {
+      return () => {};
+    }
+
+    let isDone = false;
+    let unsubscribe: TEventBusUnsubscribe = () => {};
+    unsubscribe = subscribe<M>(topic, (message, control) => {
+      if (isDone) return;
+      isDone = true;
+      unsubscribe();
+      listener(message, control);
+    }, options);
+
+    // A retained message may have been replayed during subscribe
+    if (isDone) unsubscribe();
+    return unsubscribe;
+  };
+
+  const waitFor = <M>(
+    topic: string,
+    options: IEventBusWaitForOptions<M> = {},
+  ): Promise<M> => {
+    const { filter, timeout, signal } = options;
+
+    return new Promise<M>((resolve, reject) => {
+      if (!topic) {
+        reject(new TypeError('A topic is required to wait for a message'));
+        return;
+      }
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      let isSettled = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      let unsubscribe: TEventBusUnsubscribe = () => {};
+
+      const cleanup = () => {
+        isSettled = true;
+        unsubscribe();
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal?.reason);
+      };
+
+      unsubscribe = subscribe<M>(topic, (message) => {
+        if (isSettled) return;
+        try {
+          if (filter && !filter(message)) return;
+        } catch (error) {
+          cleanup();
+          reject(error);
+          return;
+        }
+        cleanup();
+        resolve(message);
+      });
+
+      // A retained message may have settled the promise during subscribe
+      if (isSettled) {
+        unsubscribe();
+        return;
+      }
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(
+            new DOMException(
+              `Timed out after ${timeout}ms waiting for "${topic}"`,
+              'TimeoutError',
+            ),
+          );
+        }, timeout);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  };
+
+  const subscribePattern = <M>(
+    pattern: string,
+    listener: TEventBusListener<IEventBusEnvelope<M>>,
+    options: IEventBusListenerOptions = {},
+  ): TEventBusUnsubscribe => {
+    const { signal } = options;
+    if (!pattern || typeof listener !== 'function' || signal?.aborted) {
+      return () => {};
+    }
+
+    const target = getTarget();
+    const matches = compileTopicPattern(pattern);
+    const customEventListener = createCustomEventListener<IEventBusEnvelope<M>>(
+      listener,
+      (error, envelope) => {
+        reportListenerError(target, error, { ...envelope, listener });
+      },
+      (envelope) => matches(envelope.topic),
+    );
+    const removeListener = addListener(
+      target,
+      WILDCARD_EVENT,
+      pattern,
+      customEventListener,
+      options.priority,
+    );
+    return bindSignal(removeListener, signal);
+  };
+
+  const subscribeAll = <M>(
+    listener: TEventBusListener<IEventBusEnvelope<M>>,
+    options?: IEventBusListenerOptions,
+  ): TEventBusUnsubscribe => {
+    return subscribePattern('**', listener, options);
+  };
+
+  const request = <P, R>(
+    topic: string,
+    payload: P,
+    options: IEventBusRequestOptions = {},
+  ): Promise<R> => {
+    const { timeout = DEFAULT_REQUEST_TIMEOUT, signal } = options;
+
+    return new Promise<R>((resolve, reject) => {
+      if (!topic) {
+        reject(new TypeError('A topic is required to send a request'));
+        return;
+      }
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const id = createId();
+      let isSettled = false;
+      let unsubscribe: TEventBusUnsubscribe = () => {};
+
+      const cleanup = () => {
+        isSettled = true;
+        unsubscribe();
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const onAbort = () => {
+        cleanup();
+        reject(signal?.reason);
+      };
+
+      const timer = setTimeout(() => {
+        cleanup();
+        reject(
+          new DOMException(
+            `No response for "${topic}" within ${timeout}ms`,
+            'TimeoutError',
+          ),
+        );
+      }, timeout);
+
+      // The first response wins, later responses to the same id are ignored
+      unsubscribe = subscribe<IResponseMessage<R>>(
+        getResponseTopic(topic),
+        (response) => {
+          if (isSettled || response?.id !== id) return;
+          cleanup();
+          if (response.error) {
+            reject(fromErrorData(response.error));
+          } else {
+            resolve(response.result as R);
+          }
+        },
+      );
+
+      // A retained response may have settled the promise during subscribe
+      if (isSettled) {
+        unsubscribe();
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const message: IRequestMessage<P> = { id, payload };
+      try {
+        dispatch(getRequestTopic(topic), message);
+      } catch (error) {
+        cleanup();
+        reject(error);
+      }
+    });
+  };
+
+  const respond = <P, R>(
+    topic: string,
+    handler: TEventBusResponder<P, R>,
+  ): TEventBusUnsubscribe => {
+    if (!topic || typeof handler !== 'function') {
+      return () => {};
+    }
+
+    return subscribe<IRequestMessage<P>>(
+      getRequestTopic(topic),
+      async (requestMessage) => {
+        if (!requestMessage?.id) return;
+        const { id } = requestMessage;
+        let response: IResponseMessage<R>;
+        try {
+          response = { id, result: await handler(requestMessage.payload) };
+        } catch (error) {
+          response = { id, error: toErrorData(error) };
+        }
+        dispatch(getResponseTopic(topic), response);
+      },
+    );
+  };
+
+  const addMiddleware = (
+    middleware: TEventBusMiddleware,
+    options: IEventBusMiddlewareOptions = {},
+  ): TEventBusUnsubscribe => {
+    if (typeof middleware !== 'function') {
+      return () => {};
+    }
+
+    const target = getTarget();
+    const { topics } = options;
+    const patterns = typeof topics === 'string' ? [topics] : topics;
+    const matchers = patterns?.map(compileTopicPattern);
+    const entry: IMiddlewareEntry = {
+      middleware,
+      matches: (topic) =>
+        !matchers || matchers.some((matches) => matches(topic)),
+    };
+
+    const entries = middlewareEntries.get(target) ?? [];
+    middlewareEntries.set(target, [...entries, entry]);
+
+    return () => {
+      const current = middlewareEntries.get(target) ?? [];
+      middlewareEntries.set(
+        target,
+        current.filter((item) => item !== entry),
+      );
+    };
+  };
+
+  const setErrorHandling = (options?: IEventBusErrorHandlingOptions) => {
+    const target = getTarget();
+    if (options) {
+      errorHandlingOptions.set(target, options);
+    } else {
+      errorHandlingOptions.delete(target);
+    }
+  };
+
+  const setSticky = (
+    topic: string,
+    options: IEventBusStickyOptions = {},
+  ): void => {
+    if (!topic) return;
+    const { size = 1 } = options;
+    const topics = getStickyTopics(getTarget());
+
+    if (size <= 0) {
+      topics.delete(topic);
+      return;
+    }
+
+    const sticky = topics.get(topic);
+    if (sticky) {
+      sticky.size = size;
+      sticky.messages.splice(0, Math.max(0, sticky.messages.length - size));
+      return;
+    }
+    topics.set(topic, { size, messages: [] });
+  };
+
+  const getRetained = <M>(topic: string): M[] => {
+    const messages = stickyTopics.get(getTarget())?.get(topic)?.messages;
+    return messages ? ([...messages] as M[]) : [];
+  };
+
+  const clearRetained = (topic?: string): void => {
+    const topics = stickyTopics.get(getTarget());
+    if (!topics) return;
+
+    if (topic === undefined) {
+      for (const sticky of topics.values()) {
+        sticky.messages.length = 0;
+      }
+      return;
+    }
+
+    const sticky = topics.get(topic);
+    if (sticky) {
+      sticky.messages.length = 0;
+    }
+  };
+
+  const currentDispatch = (): IEventBusDispatchControl | undefined => {
+    return deliveries[deliveries.length - 1]?.control;
+  };
+
+  const inspect = (): IEventBusInspection => {
+    const target = getTarget();
+    const topics: IEventBusTopicInfo[] = [];
+    const patternCounts = new Map<string, number>();
+
+    const entriesByType =
+      listenerEntries.get(target) ?? new Map<string, IListenerEntry[]>();
+
+    for (const [type, entries] of entriesByType) {
+      if (type === WILDCARD_EVENT) {
+        for (const { name } of entries) {
+          patternCounts.set(name, (patternCounts.get(name) ?? 0) + 1);
+        }
+      } else {
+        topics.push({ topic: entries[0].name, subscriberCount: entries.length });
+      }
+    }
+
+    return {
+      topics,
+      patterns: Array.from(patternCounts, ([topic, subscriberCount]) => ({
+        topic,
+        subscriberCount,
+      })),
+      stickyTopics: Array.from(stickyTopics.get(target)?.keys() ?? []),
+      middlewareCount: middlewareEntries.get(target)?.length ?? 0,
+      historySize: histories.get(target)?.size ?? 0,
+    };
+  };
+
+  const setHistory = (options: IEventBusHistoryOptions = {}): void => {
+    const { size = DEFAULT_HISTORY_SIZE } = options;
+    const target = getTarget();
+
+    if (size <= 0) {
+      histories.delete(target);
+      return;
+    }
+
+    const history = histories.get(target);
+    if (history) {
+      history.size = size;
+      history.entries.splice(0, Math.max(0, history.entries.length - size));
+      return;
+    }
+    histories.set(target, { size, entries: [] });
+  };
+
+  const getHistory = <M>(): IEventBusHistoryEntry<M>[] => {
+    const entries = histories.get(getTarget())?.entries;
+    return entries ? ([...entries] as IEventBusHistoryEntry<M>[]) : [];
+  };
+
+  const clearHistory = (): void => {
+    const history = histories.get(getTarget());
+    if (history) {
+      history.entries.length = 0;
+    }
+  };
+
+  const exportHistory = (): string => {
+    return serializeMessage(getHistory()) ?? '[]';
+  };
+
+  const replayHistory = (history: string | IEventBusHistoryEntry[]): void => {
+    const entries =
+      typeof history === 'string' ? deserializeMessage(history) : history;
+    if (!Array.isArray(entries) || !entries.every(isHistoryEntry)) {
+      throw new TypeError('Expected a list of { topic, message } entries');
+    }
+
+    for (const { topic, message } of entries) {
+      dispatch(topic, message);
+    }
+  };
+
+  const setValidator = <M>(
+    topic: string,
+    validator?: TEventBusValidator<M>,
+    options: IEventBusValidatorOptions = {},
+  ): void => {
+    if (!topic) return;
+    const { validators } = getValidation(getTarget());
+
+    if (typeof validator !== 'function') {
+      validators.delete(topic);
+      return;
+    }
+    validators.set(topic, {
+      validator,
+      onInvalid: options.onInvalid ?? 'throw',
+    });
+  };
+
+  const setValidationEnabled = (enabled: boolean): void => {
+    getValidation(getTarget()).isEnabled = enabled;
+  };
+
+  const setPayloadMode = (
+    mode?: TEventBusPayloadMode,
+    modeOptions: IEventBusPayloadModeOptions = {},
+  ): void => {
+    const policy = getPayloadPolicy(getTarget());
+    const { topic } = modeOptions;
+
+    if (topic === undefined) {
+      policy.mode = mode ?? 'shared';
+    } else if (mode === undefined) {
+      policy.topicModes.delete(topic);
+    } else {
+      policy.topicModes.set(topic, mode);
+    }
+  };
+
+  const setMutationWarnings = (enabled: boolean): void => {
+    getPayloadPolicy(getTarget()).isMutationWarningEnabled = enabled;
+  };
+
+  for (const [topic, validator] of Object.entries(options.validators ?? {})) {
+    setValidator(topic, validator);
+  }
+  if (options.payloadMode) {
+    setPayloadMode(options.payloadMode);
+  }
+
+  return {
+    dispatch,
+    dispatchAsync,
+    subscribe,
+    once,
+    waitFor,
+    subscribePattern,
+    subscribeAll,
+    request,
+    respond,
+    addMiddleware,
+    setErrorHandling,
+    setSticky,
+    getRetained,
+    clearRetained,
+    currentDispatch,
+    inspect,
+    setHistory,
+    getHistory,
+    clearHistory,
+    exportHistory,
+    replayHistory,
+    setValidator,
+    setValidationEnabled,
+    setPayloadMode,
+    setMutationWarnings,
+  };
+};
+
+/**
+ * The bus behind the `bus*` functions, also used by the hooks outside of a
+ * `BusProvider`
+ */
+export const globalBus = createEventBusCore();
+
+/**
+ * Dispatches a message to all listeners subscribed to the given topic
+ *
+ * @template T - The type of the message payload
+ * @param topic - The topic/channel to dispatch to
+ * @param message - The message payload to send
+ * @returns `false` when a listener cancelled the message with
+ * `preventDefault`, `true` otherwise
+ *
+ * @example
+ * ```ts
+ * busDispatch('user-updated', { id: 1, name: 'John' });
+ *
+ * if (busDispatch('navigate', { to: '/checkout' })) {
+ *   router.push('/checkout');
+ * }
+ * ```
+ */
+export const busDispatch = <T extends IEventBus>(
+  topic: T['topic'],
+  message: T['message'],
+): boolean => {
+  return globalBus.dispatch(topic, message);
+};
+
+/**
+ * Dispatches a message and waits for every listener to finish, including
+ * async listeners
+ *
+ * Listener errors are returned in the result instead of being reported to
+ * the error handling of the bus. Listeners subscribed with `throttle`,
+ * `debounce` or `batch` run later, so they are not awaited nor counted.
+ *
+ * @template T - The type of the message payload
+ * @param topic - The topic/channel to dispatch to
+ * @param message - The message payload to send
+ * @param options - Optional overall `timeout` in milliseconds
+ * @returns The number of listeners, their settled results and their errors.
+ * Rejects with a `TimeoutError` when the listeners do not settle in time
+ *
+ * @example
+ * ```ts
+ * const { listenerCount, errors } = await busDispatchAsync(
+ *   'save-all-editors',
+ *   undefined,
+ *   { timeout: 3000 },
+ * );
+ *
+ * if (listenerCount > 0 && errors.length === 0) {
+ *   navigate('/next');
+ * }
+ * ```
+ */
+export const busDispatchAsync = <T extends IEventBus>(
+  topic: T['topic'],
+  message: T['message'],
+  options?: IEventBusDispatchAsyncOptions,
+): Promise<IEventBusDispatchResult> => {
+  return globalBus.dispatchAsync(topic, message, options);
+};
+
+/**
+ * Subscribes to messages on a specific topic
+ *
+ * Listeners receive the message and the dispatch control, which stops the
+ * delivery to the remaining listeners or cancels the message while they run.
+ * Exact subscriptions run before pattern subscriptions, so stopping the
+ * propagation skips both. Rate limited listeners (`throttle`, `debounce`,
+ * `batch`) are called after the dispatch returned, pending calls are dropped
+ * on unsubscribe.
+ *
+ * @template T - The type of the message payload
+ * @template O - The subscribe options, `batch: 'all'` delivers arrays of messages
+ * @param topic - The topic/channel to subscribe to
+ * @param listener - Callback function that will be called with the message
+ * payload and the dispatch control
+ * @param options - Optional `priority` (listeners with a higher priority run
+ * first), an abort `signal` that removes the listener, and one of `throttle`
+ * (ms), `debounce` (ms) or `batch` per animation frame
+ * @returns An unsubscribe function that can be called to remove the subscription
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = busSubscribe('user-updated', (message) => {
+ *   console.log('User updated:', message);
+ * });
+ *
+ * // Later when you want to unsubscribe
+ * unsubscribe();
+ *
+ * // Runs before the default priority (0) listeners and vetoes the message,
+ * // `busDispatch` then returns false
+ * busSubscribe('navigate', (_message, control) => {
+ *   if (hasUnsavedChanges()) {
+ *     control.preventDefault();
+ *     control.stopPropagation();
+ *   }
+ * }, { priority: 10 });
+ *
+ * busSubscribe('scroll', savePosition, { throttle: 100 });
+ * busSubscribe('search-input', runSearch, { debounce: 300 });
+ * busSubscribe('cursor-moved', (moves) => draw(moves), { batch: 'all' });
+ *
+ * // One controller tears down a group of subscriptions and fetches
+ * const controller = new AbortController();
+ * busSubscribe('user-updated', render, { signal: controller.signal });
+ * fetch('/api/user', { signal: controller.signal });
+ * controller.abort();
+ * ```
+ */
+export const busSubscribe = <
+  T extends IEventBus,
+  O extends IEventBusSubscribeOptions = IEventBusSubscribeOptions,
+>(
+  topic: T['topic'],
+  listener: TEventBusListener<TEventBusSubscribedMessage<T['message'], O>>,
+  options?: O,
+): TEventBusUnsubscribe => {
+  return globalBus.subscribe(topic, listener, options);
+};
+
+/**
+ * Subscribes to the next message on a specific topic only
+ *
+ * @template T - The type of the message payload
+ * @param topic - The topic/channel to subscribe to
+ * @param listener - Callback function that will be called once with the message payload
+ * @param options - Optional `priority` (listeners with a higher priority run
+ * first) and an abort `signal` that removes the listener
+ * @returns An unsubscribe function that cancels the subscription before it fires
+ *
+ * @example
+ * ```ts
+ * busOnce('app-ready', () => {
+ *   console.log('App is ready');
+ * });
+ * ```
+ */
+export const busOnce = <T extends IEventBus>(
+  topic: T['topic'],
+  listener: TEventBusListener<T['message']>,
+  options?: IEventBusListenerOptions,
+): TEventBusUnsubscribe => {
+  return globalBus.once(topic, listener, options);
+};
+
+/**
+ * Waits for the next message on a specific topic
+ *
+ * The listener is always removed once the promise settles.
+ *
+ * @template T - The type of the message payload
+ * @param topic - The topic/channel to wait on
+ * @param options - Optional `filter`, `timeout` (ms) and abort `signal`
+ * @returns A promise that resolves with the message, or rejects with a
+ * `TimeoutError` on timeout and with the abort reason when aborted
+ *
+ * @example
+ * ```ts
+ * const session = await busWaitFor('auth-ready', { timeout: 5000 });
+ *
+ * const admin = await busWaitFor<IEventBus<IUser>>('user-updated', {
+ *   filter: (user) => user.role === 'admin',
+ * });
+ * ```
+ */
+export const busWaitFor = <T extends IEventBus>(
+  topic: T['topic'],
+  options?: IEventBusWaitForOptions<T['message']>,
+): Promise<T['message']> => {
+  return globalBus.waitFor(topic, options);
+};
+
+/**
+ * Subscribes to every topic matching a dot-separated pattern
+ *
+ * `*` matches exactly one segment and `**` matches any number of segments.
+ * Exact topics keep using `busSubscribe`.
+ *
+ * @template T - The type of the message payload
+ * @param pattern - The topic pattern, e.g. `user.*` or `cart.**`
+ * @param listener - Callback function that will be called with `{ topic, message }`
+ * @param options - Optional `priority` among the other pattern subscriptions
+ * and an abort `signal` that removes the listener
+ * @returns An unsubscribe function that can be called to remove the subscription
+ *
+ * @example
+ * ```ts
+ * const unsubscribe = busSubscribePattern('user.*', ({ topic, message }) => {
+ *   console.log(topic, message); // 'user.updated', { id: 1 }
+ * });
+ *
+ * busDispatch('user.updated', { id: 1 });
+ * ```
+ */
+export const busSubscribePattern = <T extends IEventBus>(
+  pattern: string,
+  listener: TEventBusListener<IEventBusEnvelope<T['message']>>,
+  options?: IEventBusListenerOptions,
+): TEventBusUnsubscribe => {
+  return globalBus.subscribePattern(pattern, listener, options);
+};
+
+/**
+ * Subscribes to every topic, e.g. for logging
+ *
+ * @param listener - Callback function that will be called with `{ topic, message }`
+ * @param options - Optional `priority` among the other pattern subscriptions
+ * and an abort `signal` that removes the listener
+ * @returns An unsubscribe function that can be called to remove the subscription
+ *
+ * @example
+ * ```ts
+ * busSubscribeAll(({ topic, message }) => {
+ *   console.debug(`[bus] ${topic}`, message);
+ * });
+ * ```
+ */
+export const busSubscribeAll = (
+  listener: TEventBusListener<IEventBusEnvelope>,
+  options?: IEventBusListenerOptions,
+): TEventBusUnsubscribe => {
+  return globalBus.subscribeAll(listener, options);
+};
+
+/**
+ * Makes a topic sticky, so the bus remembers its last messages and replays
+ * them to every new `busSubscribe`/`useEventBus` subscriber
+ *
+ * @param topic - The topic to retain messages for
+ * @param options - `size` is the number of messages to retain (defaults to 1),
+ * a size of 0 turns the sticky mode off again
+ *
+ * @example
+ * ```ts
+ * busSetSticky('theme-changed');
+ * busDispatch('theme-changed', 'dark');
+ *
+ * // Subscribers that come later still get the current value
+ * busSubscribe('theme-changed', (theme) => console.log(theme)); // 'dark'
+ * ```
+ */
+export const busSetSticky = (
+  topic: string,
+  options?: IEventBusStickyOptions,
+): void => {
+  globalBus.setSticky(topic, options);
+};
+
+/**
+ * Returns the retained messages of a sticky topic, oldest first
+ *
+ * @template T - The type of the message payload
+ * @param topic - The sticky topic
+ * @returns The retained messages, or an empty array
+ *
+ * @example
+ * ```ts
+ * const [theme] = busGetRetained<IEventBus<string>>('theme-changed');
+ * ```
+ */
+export const busGetRetained = <T extends IEventBus>(
+  topic: T['topic'],
+): T['message'][] => {
+  return globalBus.getRetained(topic);
+};
+
+/**
+ * Clears the retained messages of a sticky topic, the topic stays sticky
+ *
+ * @param topic - The sticky topic, clears every sticky topic when omitted
+ *
+ * @example
+ * ```ts
+ * busClearRetained('theme-changed');
+ * ```
+ */
+export const busClearRetained = (topic?: string): void => {
+  globalBus.clearRetained(topic);
+};
+
+/**
+ * Sends a request on a topic and resolves with the first response
+ *
+ * @template T - The request payload and response types
+ * @param topic - The topic a responder is registered for
+ * @param payload - The request payload
+ * @param options - Optional `timeout` in milliseconds (defaults to 5000) and
+ * abort `signal`
+ * @returns A promise that resolves with the response, rejects with the
+ * responder's error, with a `TimeoutError` when nobody responds in time, or
+ * with the abort reason when aborted
+ *
+ * @example
+ * ```ts
+ * const user = await busRequest<IEventBusRequestSpec<{ id: number }, IUser>>(
+ *   'get-user',
+ *   { id: 1 },
+ *   { timeout: 2000 },
+ * );
+ * ```
+ */
+export const busRequest = <T extends IEventBusRequestSpec>(
+  topic: string,
+  payload: T['request'],
+  options?: IEventBusRequestOptions,
+): Promise<T['response']> => {
+  return globalBus.request(topic, payload, options);
+};
+
+/**
+ * Answers the requests sent on a topic with `busRequest`
+ *
+ * The handler may return the response or a promise of it, a thrown error or
+ * rejected promise rejects the request. When several responders answer the
+ * same request, the first response wins.
+ *
+ * @template T - The request payload and response types
+ * @param topic - The topic to answer requests for
+ * @param handler - Receives the request payload and returns the response
+ * @returns An unsubscribe function that stops answering requests
+ *
+ * @example
+ * ```ts
+ * busRespond<IEventBusRequestSpec<{ id: number }, IUser>>(
+ *   'get-user',
+ *   async ({ id }) => fetchUser(id),
+ * );
+ * ```
+ */
+export const busRespond = <T extends IEventBusRequestSpec>(
+  topic: string,
+  handler: TEventBusResponder<T['request'], T['response']>,
+): TEventBusUnsubscribe => {
+  return globalBus.respond(topic, handler);
+};
+
+/**
+ * Adds middleware that runs around every dispatch on the global bus
+ *
+ * Middleware runs in the order it was added. It can read and replace
+ * `context.message` and has to call `next()` to pass the message on, not
+ * calling it drops the message before any listener sees it. `next()` has to
+ * be called synchronously: called after an `await` the message is still
+ * delivered, but the dispatch has already returned, `busDispatchAsync` does
+ * not wait for the listeners and listener errors are thrown from `next()`.
+ * Late calls are reported with `console.warn`.
+ *
+ * @param middleware - Receives the dispatch context and the `next` function
+ * @param options - Optional `topics` (topics or `*` / `**` patterns) to limit the middleware to
+ * @returns A function that removes the middleware
+ *
+ * @example
+ * ```ts
+ * // Add a timestamp to every message
+ * busAddMiddleware((context, next) => {
+ *   context.message = { ...context.message, timestamp: Date.now() };
+ *   next();
+ * }, { topics: 'analytics.**' });
+ *
+ * // Drop messages without a payload
+ * busAddMiddleware((context, next) => {
+ *   if (context.message != null) next();
+ * });
+ * ```
+ */
+export const busAddMiddleware = (
+  middleware: TEventBusMiddleware,
+  options?: IEventBusMiddlewareOptions,
+): TEventBusUnsubscribe => {
+  return globalBus.addMiddleware(middleware, options);
+};
+
+/**
+ * Configures how the global bus handles listener errors, including rejected
+ * promises of async listeners
+ *
+ * By default errors are logged with `console.error`. Calling it without
+ * options restores the default.
+ *
+ * @param options - `onError` handler, `errorTopic` to re-emit failures on,
+ * and `rethrow` to throw listener errors from the dispatch, e.g. in tests
+ *
+ * @example
+ * ```ts
+ * busSetErrorHandling({
+ *   onError: (error, { topic }) => reportError(error, { tags: { topic } }),
+ *   errorTopic: 'bus.error',
+ * });
+ *
+ * // In a test setup file
+ * busSetErrorHandling({ rethrow: true });
+ * ```
+ */
+export const busSetErrorHandling = (
+  options?: IEventBusErrorHandlingOptions,
+): void => {
+  globalBus.setErrorHandling(options);
+};
+
+/**
+ * Returns the control of the message the listeners are currently handling
+ *
+ * Every listener also receives the control as its second argument, which is
+ * the preferred way to reach it. This is a convenience for code called by a
+ * listener: it only works synchronously and returns `undefined` outside of a
+ * listener, after an `await` and in rate limited listeners.
+ *
+ * @returns The dispatch control, or `undefined` when no listener is running
+ *
+ * @example
+ * ```ts
+ * const vetoNavigation = () => {
+ *   busCurrentDispatch()?.preventDefault();
+ * };
+ *
+ * busSubscribe('navigate', () => {
+ *   if (hasUnsavedChanges()) vetoNavigation();
+ * }, { priority: 100 });
+ * ```
+ */
+export const busCurrentDispatch = (): IEventBusDispatchControl | undefined => {
+  return globalBus.currentDispatch();
+};
+
+/**
+ * Lists the active topics and topic patterns of the global bus with their
+ * subscriber counts, for debugging
+ *
+ * Topics travel as hashed event names, this is the readable view of them.
+ *
+ * @returns The subscribed topics and patterns, sticky topics, the number of
+ * middleware and the history size
+ *
+ * @example
+ * ```ts
+ * const { topics } = busInspect();
+ * console.table(topics); // [{ topic: 'user-updated', subscriberCount: 2 }]
+ * ```
+ */
+export const busInspect = (): IEventBusInspection => {
+  return globalBus.inspect();
+};
+
+/**
+ * Records the recent dispatches of the global bus in a ring buffer
+ *
+ * Every dispatch is recorded with its topic, message and timestamp, before
+ * middleware runs. The messages are kept by reference.
+ *
+ * @param options - `size` is the number of dispatches to keep (defaults to
+ * 100), a size of 0 stops recording and drops the history
+ *
+ * @example
+ * ```ts
+ * if (import.meta.env.DEV) {
+ *   busSetHistory({ size: 500 });
+ * }
+ * ```
+ */
+export const busSetHistory = (options?: IEventBusHistoryOptions): void => {
+  globalBus.setHistory(options);
+};
+
+/**
+ * Returns the recorded dispatches of the global bus, oldest first
+ *
+ * @returns The recorded dispatches, or an empty array when the history is off
+ *
+ * @example
+ * ```ts
+ * const lastDispatch = busGetHistory().at(-1);
+ * ```
+ */
+export const busGetHistory = <T = unknown>(): IEventBusHistoryEntry<T>[] => {
+  return globalBus.getHistory<T>();
+};
+
+/**
+ * Clears the recorded dispatches, the history keeps recording
+ *
+ * @example
+ * ```ts
+ * busClearHistory();
+ * ```
+ */
+export const busClearHistory = (): void => {
+  globalBus.clearHistory();
+};
+
+/**
+ * Serializes the recorded dispatches to JSON, e.g. to attach to a bug report
+ *
+ * BigInt values survive the round trip through `busReplayHistory`.
+ *
+ * @returns The history as a JSON string
+ *
+ * @example
+ * ```ts
+ * const report = { description, busHistory: busExportHistory() };
+ * ```
+ */
+export const busExportHistory = (): string => {
+  return globalBus.exportHistory();
+};
+
+/**
+ * Dispatches recorded messages again, in their original order
+ *
+ * @param history - Entries from `busGetHistory` or a string from `busExportHistory`
+ * @throws {TypeError} When the history is not a list of `{ topic, message }` entries
+ *
+ * @example
+ * ```ts
+ * // Reproduce the session of a bug report
+ * busReplayHistory(report.busHistory);
+ * ```
+ */
+export const busReplayHistory = (
+  history: string | IEventBusHistoryEntry[],
+): void => {
+  globalBus.replayHistory(history);
+};
+
+/**
+ * Validates the messages of a topic on the global bus at dispatch time, so
+ * invalid payloads never reach the listeners
+ *
+ * Messages are checked after middleware ran. By default an invalid message
+ * throws a TypeError from the dispatch, with `onInvalid: 'report'` it is
+ * dropped and the TypeError goes to the error handling of the bus.
+ *
+ * @template T - The type of a valid message
+ * @param topic - The topic to validate
+ * @param validator - Type guard for the message, omit it to remove the validator
+ * @param options - Optional `onInvalid` behavior
+ *
+ * @example
+ * ```ts
+ * import { isNumber, isObject, isString } from '@pivanov/utils';
+ *
+ * const isUser = (value: unknown): value is IUser =>
+ *   isObject(value) && isNumber(value.id) && isString(value.name);
+ *
+ * busSetValidator('user-updated', isUser);
+ * busDispatch('user-updated', { id: '1' }); // throws TypeError
+ *
+ * busSetValidator('analytics', isObject, { onInvalid: 'report' });
+ * ```
+ */
+export const busSetValidator = <T>(
+  topic: string,
+  validator?: TEventBusValidator<T>,
+  options?: IEventBusValidatorOptions,
+): void => {
+  globalBus.setValidator(topic, validator, options);
+};
+
+/**
+ * Turns message validation of the global bus on or off, validators stay
+ * registered. Validation is on by default
+ *
+ * @param enabled - Whether messages are validated
+ *
+ * @example
+ * ```ts
+ * busSetValidationEnabled(process.env.NODE_ENV !== 'production');
+ * ```
+ */
+export const busSetValidationEnabled = (enabled: boolean): void => {
+  globalBus.setValidationEnabled(enabled);
+};
+
+/**
+ * Sets how the listeners of the global bus receive payloads
+ *
+ * Listeners share the dispatched object by default, so one listener that
+ * mutates it changes what the others see. `'frozen'` hands the listeners one
+ * `deepClone` copy per dispatch with its plain objects and arrays deep-frozen,
+ * so mutations throw while the dispatched object stays writable. `'cloned'`
+ * hands every listener its own `deepClone` copy, at the cost of a copy per
+ * listener.
+ *
+ * @param mode - `'shared'`, `'frozen'` or `'cloned'`, no mode restores the default
+ * @param options - Optional `topic` to set the mode of one topic only
+ *
+ * @example
+ * ```ts
+ * busSetPayloadMode('frozen');
+ * busSetPayloadMode('cloned', { topic: 'editor-state' });
+ * busSetPayloadMode(undefined, { topic: 'editor-state' }); // back to frozen
+ * ```
+ */
+export const busSetPayloadMode = (
+  mode?: TEventBusPayloadMode,
+  options?: IEventBusPayloadModeOptions,
+): void => {
+  globalBus.setPayloadMode(mode, options);
+};
+
+/**
+ * Turns the warning for listeners of the global bus that mutate a shared
+ * payload on or off. Off by default, while on every listener call serializes
+ * the message twice to compare it. Rate limited listeners are not checked
+ *
+ * @param enabled - Whether mutations are reported with `console.warn`
+ *
+ * @example
+ * ```ts
+ * if (import.meta.env.DEV) {
+ *   busSetMutationWarnings(true);
+ * }
+ * ```
+ */
+export const busSetMutationWarnings = (enabled: boolean): void => {
+  globalBus.setMutationWarnings(enabled);
 };
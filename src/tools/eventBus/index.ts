@@ -1,3 +1,85 @@
-export { IEventBus } from './types';
-export * from './eventBus';
-export * from './useEventBus';
+export type {
+  IBusProviderProps,
+  IEventBus,
+  IEventBusBridge,
+  IEventBusBroadcastBridgeOptions,
+  IEventBusDispatchAsyncOptions,
+  IEventBusDispatchContext,
+  IEventBusDispatchControl,
+  IEventBusDispatchResult,
+  IEventBusEnvelope,
+  IEventBusErrorContext,
+  IEventBusErrorHandlingOptions,
+  IEventBusErrorMessage,
+  IEventBusGlobalOptions,
+  IEventBusHistoryEntry,
+  IEventBusHistoryOptions,
+  IEventBusInspection,
+  IEventBusInstance,
+  IEventBusListenerOptions,
+  IEventBusMiddlewareOptions,
+  IEventBusMock,
+  IEventBusMockOptions,
+  IEventBusPayloadModeOptions,
+  IEventBusPostMessageBridgeOptions,
+  IEventBusRequestOptions,
+  IEventBusRequestSpec,
+  IEventBusStickyOptions,
+  IEventBusSubscribeOptions,
+  IEventBusTargetOptions,
+  IEventBusTopicInfo,
+  IEventBusValidatorOptions,
+  IEventBusWaitForOptions,
+  TEventBusErrorHandler,
+  TEventBusListener,
+  TEventBusMessageEndpoint,
+  TEventBusMiddleware,
+  TEventBusOptions,
+  TEventBusPayloadMode,
+  TEventBusResponder,
+  TEventBusSubscribedMessage,
+  TEventBusUnsubscribe,
+  TEventBusValidator,
+  TEventBusValidatorMap,
+  TEventMap,
+  TEventMapEnvelope,
+  TEventMapMessageArgs,
+  TEventMapTopic,
+  TEventRequestMap,
+  TEventRequestTopic,
+} from './types';
+export * from './broadcastBridge';
+export { BusProvider } from './BusProvider';
+export * from './createEventBus';
+export {
+  busAddMiddleware,
+  busClearHistory,
+  busClearRetained,
+  busCurrentDispatch,
+  busDispatch,
+  busDispatchAsync,
+  busExportHistory,
+  busGetHistory,
+  busGetRetained,
+  busInspect,
+  busOnce,
+  busReplayHistory,
+  busRequest,
+  busRespond,
+  busSetErrorHandling,
+  busSetHistory,
+  busSetMutationWarnings,
+  busSetPayloadMode,
+  busSetSticky,
+  busSetValidationEnabled,
+  busSetValidator,
+  busSubscribe,
+  busSubscribeAll,
+  busSubscribePattern,
+  busWaitFor,
+} from './eventBus';
+export { createMockEventBus } from './mockEventBus';
+export * from './postMessageBridge';
+export { useBusDispatch } from './useBusDispatch';
+export { useBusValue } from './useBusValue';
+export { useEventBus } from './useEventBus';
@@ -0,0 +1,153 @@
+import { isObject } from '../../assertion';
+import { isEqual } from '../isEqual';
+import {
+  createEventBusCore,
+  getGlobalTarget,
+  globalBus,
+} from './eventBus';
+import { serializeMessage } from './utils';
+
+import type {
+  IEventBusEnvelope,
+  IEventBusHistoryEntry,
+  IEventBusMock,
+  IEventBusMockOptions,
+} from './types';
+
+/**
+ * Checks a message against a partial message, objects match when every
+ * listed key matches and arrays match item by item
+ */
+const matchesPartial = (message: unknown, partial: unknown): boolean => {
+  if (isObject(partial)) {
+    return (
+      isObject(message) &&
+      Object.keys(partial).every((key) =>
+        matchesPartial(message[key], partial[key]),
+      )
+    );
+  }
+  if (Array.isArray(partial)) {
+    return (
+      Array.isArray(message) &&
+      message.length === partial.length &&
+      partial.every((item, index) => matchesPartial(message[index], item))
+    );
+  }
+  return isEqual(message, partial);
+};
+
+/**
+ * Formats a message for assertion errors, circular messages fall back to
+ * their string form
+ */
+const describeMessage = (message: unknown): string => {
+  try {
+    return serializeMessage(message) ?? String(message);
+  } catch {
+    return String(message);
+  }
+};
+
+/**
+ * Creates a bus for tests that records every dispatch
+ *
+ * Records through middleware, so it works with any test runner and in both
+ * jsdom and Node. Without a `target` it records the global bus that
+ * `busDispatch` uses; with a `target` it records an isolated bus, e.g. the
+ * one of a `BusProvider`. Messages dropped by earlier middleware are not
+ * recorded.
+ *
+ * @param options - Optional `target` of the bus to record
+ * @returns The mock bus with its recordings and assertion helpers
+ *
+ * @example
+ * ```typescript
+ * const mock = createMockEventBus();
+ * afterEach(() => mock.reset());
+ *
+ * it('saves the user', () => {
+ *   render(<UserForm />);
+ *   mock.simulate('user-loaded', { id: 1, name: 'John' });
+ *   fireEvent.click(screen.getByText('Save'));
+ *   mock.expectDispatched('user-saved', { id: 1 });
+ * });
+ *
+ * // Isolated bus for a subtree
+ * const scoped = createMockEventBus({ target: new EventTarget() });
+ * render(<BusProvider target={scoped.target}><UserForm /></BusProvider>);
+ * ```
+ */
+export const createMockEventBus = (
+  options: IEventBusMockOptions = {},
+): IEventBusMock => {
+  const { target } = options;
+  const bus = target ? createEventBusCore({ target }) : globalBus;
+  let dispatches: IEventBusHistoryEntry[] = [];
+  let simulated: IEventBusEnvelope | undefined;
+
+  const removeMiddleware = bus.addMiddleware((context, next) => {
+    const { topic, message } = context;
+    const isSimulated =
+      simulated?.topic === topic && simulated.message === message;
+    if (isSimulated) {
+      simulated = undefined;
+    } else {
+      dispatches.push({ topic, message, timestamp: Date.now() });
+    }
+    next();
+  });
+
+  const getMessages = <M>(topic: string): M[] =>
+    dispatches
+      .filter((entry) => entry.topic === topic)
+      .map((entry) => entry.message as M);
+
+  const expectDispatched = (topic: string, partialMessage?: unknown) => {
+    const messages = getMessages(topic);
+    if (!messages.length) {
+      throw new Error(`Expected a dispatch on "${topic}", received none`);
+    }
+    if (
+      partialMessage === undefined ||
+      messages.some((message) => matchesPartial(message, partialMessage))
+    ) {
+      return;
+    }
+    throw new Error(
+      `Expected a dispatch on "${topic}" matching ${describeMessage(partialMessage)}, received ${messages.map(describeMessage).join(', ')}`,
+    );
+  };
+
+  const expectNotDispatched = (topic: string) => {
+    const messages = getMessages(topic);
+    if (messages.length) {
+      throw new Error(
+        `Expected no dispatch on "${topic}", received ${messages.map(describeMessage).join(', ')}`,
+      );
+    }
+  };
+
+  const simulate = <M>(topic: string, message: M): boolean => {
+    simulated = { topic, message };
+    try {
+      return bus.dispatch(topic, message);
+    } finally {
+      simulated = undefined;
+    }
+  };
+
+  return {
+    bus,
+    target: target ?? getGlobalTarget(),
+    getDispatches: () => [...dispatches],
+    getMessages,
+    expectDispatched,
+    expectNotDispatched,
+    simulate,
+    reset: () => {
+      dispatches = [];
+    },
+    restore: removeMiddleware,
+  };
+};
@@ -0,0 +1,159 @@
+import {
+  BRIDGE_MESSAGE_TYPE,
+  connectBridge,
+  isBridgeHandshakeMessage,
+  isBridgeMessage,
+} from './bridge';
+import { createId } from './utils';
+
+import type {
+  IBridgeHandshakeMessage,
+  IBridgeMessage,
+} from './bridge';
+import type {
+  IEventBusBridge,
+  IEventBusPostMessageBridgeOptions,
+  TEventBusMessageEndpoint,
+} from './types';
+
+/**
+ * Windows (including cross-origin WindowProxy objects) reference themselves
+ * through `window`, ports, workers and worker scopes do not
+ */
+const isWindowEndpoint = (
+  endpoint: TEventBusMessageEndpoint,
+): endpoint is Window => {
+  return (endpoint as Window).window === endpoint;
+};
+
+const isOriginAllowed = (allowedOrigins: string[], origin: string) => {
+  return allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+};
+
+/**
+ * Connects a bus to a `MessagePort`, a `Worker` (or the worker scope from
+ * inside a worker) or another window such as an iframe or the parent page
+ *
+ * Each direction has its own topic allowlist. Messages from other windows
+ * are only accepted from the allowed origins (the page's own origin by
+ * default). Both sides greet each other when created, messages dispatched
+ * before the other side answered are queued and sent once it is ready.
+ *
+ * @param options - The endpoint, the topics for each direction and the allowed origins
+ * @returns The bridge with its `id` and a `close` function
+ *
+ * @example
+ * ```ts
+ * // main thread
+ * const worker = new Worker('./worker.js');
+ * const bridge = createPostMessageBridge({
+ *   endpoint: worker,
+ *   sendTopics: ['job.start'],
+ *   receiveTopics: ['job.progress', 'job.done'],
+ * });
+ *
+ * // worker.js
+ * createPostMessageBridge({
+ *   endpoint: self,
+ *   sendTopics: ['job.progress', 'job.done'],
+ *   receiveTopics: ['job.start'],
+ * });
+ *
+ * // iframe talking to its parent page
+ * createPostMessageBridge({
+ *   endpoint: window.parent,
+ *   allowedOrigins: ['https://app.example.com'],
+ *   sendTopics: ['widget.resized'],
+ *   receiveTopics: ['theme-changed'],
+ * });
+ * ```
+ */
+export const createPostMessageBridge = (
+  options: IEventBusPostMessageBridgeOptions,
+): IEventBusBridge => {
+  const { endpoint, sendTopics = [], receiveTopics = [], target } = options;
+  const id = createId();
+  const isWindow = isWindowEndpoint(endpoint);
+  const ownOrigin = typeof location !== 'undefined' ? location.origin : '*';
+  const allowedOrigins = options.allowedOrigins ?? [ownOrigin];
+  const targetOrigin = options.targetOrigin ?? allowedOrigins[0] ?? ownOrigin;
+
+  const post = (data: IBridgeMessage | IBridgeHandshakeMessage) => {
+    if (isWindow) {
+      endpoint.postMessage(data, targetOrigin);
+    } else {
+      (endpoint as MessagePort).postMessage(data);
+    }
+  };
+
+  const sendHandshake = (handshake: IBridgeHandshakeMessage['handshake']) => {
+    post({ type: BRIDGE_MESSAGE_TYPE, sourceId: id, handshake });
+  };
+
+  let isReady = false;
+  const queue: IBridgeMessage[] = [];
+
+  const connection = connectBridge({
+    id,
+    target,
+    sendTopics,
+    receiveTopics,
+    send: (data) => {
+      if (isReady) {
+        post(data);
+      } else {
+        queue.push(data);
+      }
+    },
+  });
+
+  const markReady = () => {
+    if (isReady) return;
+    isReady = true;
+    for (const data of queue.splice(0)) {
+      post(data);
+    }
+  };
+
+  const onMessage = (event: Event) => {
+    const { data, origin, source } = event as MessageEvent;
+
+    if (isWindow) {
+      if (source !== endpoint || !isOriginAllowed(allowedOrigins, origin)) {
+        return;
+      }
+    }
+
+    if (isBridgeHandshakeMessage(data)) {
+      if (data.sourceId === id) return;
+      if (data.handshake === 'hello') {
+        sendHandshake('ready');
+      }
+      markReady();
+      return;
+    }
+
+    if (isBridgeMessage(data)) {
+      connection.receive(data);
+    }
+  };
+
+  // Messages from another window arrive on our own window
+  const listenTarget: EventTarget = isWindow ? window : endpoint;
+  listenTarget.addEventListener('message', onMessage);
+  if (typeof (endpoint as MessagePort).start === 'function') {
+    (endpoint as MessagePort).start();
+  }
+  sendHandshake('hello');
+
+  let isClosed = false;
+  const close = () => {
+    if (isClosed) return;
+    isClosed = true;
+    connection.close();
+    listenTarget.removeEventListener('message', onMessage);
+    queue.length = 0;
+  };
+
+  return { id, close };
+};
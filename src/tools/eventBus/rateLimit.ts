@@ -0,0 +1,148 @@
+import type {
+  IEventBusDispatchControl,
+  IEventBusSubscribeOptions,
+} from './types';
+
+type TInvoke = (message: unknown, control: IEventBusDispatchControl) => void;
+
+/**
+ * A listener that defers the real listener call
+ */
+export interface IRateLimitedListener {
+  /** Receives every message with the control of its dispatch */
+  listener: TInvoke;
+  /** Drops pending messages and clears the timers */
+  cancel: () => void;
+}
+
+/**
+ * Schedules a callback for the next animation frame, falls back to a timer
+ * where animation frames are not available (Node, some workers)
+ */
+const requestFrame = (callback: () => void): (() => void) => {
+  if (typeof requestAnimationFrame === 'function') {
+    const id = requestAnimationFrame(callback);
+    return () => cancelAnimationFrame(id);
+  }
+  const timer = setTimeout(callback, 16);
+  return () => clearTimeout(timer);
+};
+
+const createThrottledListener = (
+  invoke: TInvoke,
+  interval: number,
+): IRateLimitedListener => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pending:
+    | { message: unknown; control: IEventBusDispatchControl }
+    | undefined;
+
+  const startInterval = () => {
+    timer = setTimeout(() => {
+      timer = undefined;
+      if (!pending) return;
+      const { message, control } = pending;
+      pending = undefined;
+      invoke(message, control);
+      startInterval();
+    }, interval);
+  };
+
+  return {
+    listener: (message, control) => {
+      if (timer !== undefined) {
+        pending = { message, control };
+        return;
+      }
+      invoke(message, control);
+      startInterval();
+    },
+    cancel: () => {
+      clearTimeout(timer);
+      timer = undefined;
+      pending = undefined;
+    },
+  };
+};
+
+const createDebouncedListener = (
+  invoke: TInvoke,
+  delay: number,
+): IRateLimitedListener => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  return {
+    listener: (message, control) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = undefined;
+        invoke(message, control);
+      }, delay);
+    },
+    cancel: () => {
+      clearTimeout(timer);
+      timer = undefined;
+    },
+  };
+};
+
+const createBatchedListener = (
+  invoke: TInvoke,
+  mode: 'latest' | 'all',
+): IRateLimitedListener => {
+  let messages: unknown[] = [];
+  let lastControl: IEventBusDispatchControl | undefined;
+  let cancelFrame: (() => void) | undefined;
+
+  return {
+    listener: (message, control) => {
+      messages.push(message);
+      lastControl = control;
+      cancelFrame ??= requestFrame(() => {
+        const batch = messages;
+        const control = lastControl as IEventBusDispatchControl;
+        messages = [];
+        lastControl = undefined;
+        cancelFrame = undefined;
+        invoke(mode === 'all' ? batch : batch[batch.length - 1], control);
+      });
+    },
+    cancel: () => {
+      cancelFrame?.();
+      cancelFrame = undefined;
+      messages = [];
+      lastControl = undefined;
+    },
+  };
+};
+
+/**
+ * Wraps a listener call in the rate limit of the subscribe options
+ * @param invoke - Calls the real listener and handles its errors
+ * @param options - The subscribe options
+ * @returns The rate limited listener, or `undefined` without a rate limit
+ * @throws {TypeError} When more than one of `throttle`, `debounce` and `batch` is set
+ */
+export const createRateLimitedListener = (
+  invoke: TInvoke,
+  options: IEventBusSubscribeOptions,
+): IRateLimitedListener | undefined => {
+  const { throttle, debounce, batch } = options;
+  const limitCount = [throttle, debounce, batch].filter(
+    (limit) => limit !== undefined,
+  ).length;
+
+  if (limitCount > 1) {
+    throw new TypeError('Use only one of throttle, debounce and batch');
+  }
+  if (throttle !== undefined) {
+    return createThrottledListener(invoke, throttle);
+  }
+  if (debounce !== undefined) {
+    return createDebouncedListener(invoke, debounce);
+  }
+  if (batch !== undefined) {
+    return createBatchedListener(invoke, batch);
+  }
+  return undefined;
+};
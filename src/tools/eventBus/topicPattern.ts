@@ -0,0 +1,45 @@
+const SEGMENT_SEPARATOR = '.';
+
+/**
+ * Compiles a dot-separated topic pattern into a matcher function
+ *
+ * - `*` matches exactly one segment (`user.*` matches `user.updated`)
+ * - `**` matches zero or more segments (`user.**` matches `user` and `user.profile.updated`)
+ * - any other segment has to match literally
+ *
+ * @param pattern - The topic pattern
+ * @returns A function that tells whether a topic matches the pattern
+ */
+export const compileTopicPattern = (
+  pattern: string,
+): ((topic: string) => boolean) => {
+  const patternSegments = pattern.split(SEGMENT_SEPARATOR);
+
+  if (!patternSegments.some((segment) => segment === '*' || segment === '**')) {
+    return (topic) => topic === pattern;
+  }
+
+  const matchSegments = (
+    topicSegments: string[],
+    patternIndex: number,
+    topicIndex: number,
+  ): boolean => {
+    if (patternIndex === patternSegments.length) {
+      return topicIndex === topicSegments.length;
+    }
+
+    const segment = patternSegments[patternIndex];
+    if (segment === '**') {
+      for (let i = topicIndex; i <= topicSegments.length; i++) {
+        if (matchSegments(topicSegments, patternIndex + 1, i)) return true;
+      }
+      return false;
+    }
+
+    if (topicIndex === topicSegments.length) return false;
+    if (segment !== '*' && segment !== topicSegments[topicIndex]) return false;
+    return matchSegments(topicSegments, patternIndex + 1, topicIndex + 1);
+  };
+
+  return (topic) => matchSegments(topic.split(SEGMENT_SEPARATOR), 0, 0);
+};
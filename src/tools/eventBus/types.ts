@@ -1,3 +1,8 @@
+import type {
+  DependencyList,
+  ReactNode,
+} from 'react';
+
 /**
  * Generic event bus interface for communication between components
  * @template T - The type of the message payload
@@ -10,12 +15,742 @@ export interface IEventBus<T = unknown> {
 }
 
 /**
- * Event bus listener function type
+ * Event bus listener function type, listeners that do not need the dispatch
+ * control can leave out the second parameter
  * @template T - The type of the message payload
  */
-export type TEventBusListener<T = unknown> = (message: T) => void;
+export type TEventBusListener<T = unknown> = (
+  message: T,
+  control: IEventBusDispatchControl,
+) => void;
 
 /**
  * Function returned by event bus subscription that can be called to unsubscribe
  */
 export type TEventBusUnsubscribe = () => void;
+
+/**
+ * Message delivered to pattern subscriptions, together with its topic
+ * @template T - The type of the message payload
+ */
+export interface IEventBusEnvelope<T = unknown> {
+  /** The topic the message was dispatched on */
+  topic: string;
+  /** The message payload */
+  message: T;
+}
+
+/**
+ * Type guard that checks the message of a topic, e.g. `isString` or a
+ * custom guard built from the assertion guards
+ * @template T - The type of a valid message
+ */
+export type TEventBusValidator<T = unknown> = (message: unknown) => message is T;
+
+/**
+ * Validators of an event map, keyed by topic
+ * @template M - The event map
+ */
+export type TEventBusValidatorMap<M extends TEventMap = TEventMap> = {
+  [K in keyof M]?: TEventBusValidator<M[K]>;
+};
+
+/**
+ * Options for validating the messages of a topic
+ */
+export interface IEventBusValidatorOptions {
+  /**
+   * `'throw'` throws a TypeError from the dispatch (the default), `'report'`
+   * drops the message and reports the TypeError to the error handling
+   */
+  onInvalid?: 'throw' | 'report';
+}
+
+/**
+ * How listeners receive a payload: `'shared'` passes the dispatched object to
+ * every listener (the default), `'frozen'` passes one deep-frozen copy of it
+ * to every listener and `'cloned'` gives every listener its own `deepClone`
+ * copy
+ */
+export type TEventBusPayloadMode = 'shared' | 'frozen' | 'cloned';
+
+/**
+ * Options for setting the payload mode
+ */
+export interface IEventBusPayloadModeOptions<K extends string = string> {
+  /** Only set the mode of this topic, other topics keep the bus mode */
+  topic?: K;
+}
+
+/**
+ * Options for creating an event bus on the global bus (`window` in browsers)
+ */
+export interface IEventBusGlobalOptions {
+  target?: undefined;
+  /** Only with a `target`, use `busSetValidator` for the global bus */
+  validators?: never;
+  /** Only with a `target`, use `busSetPayloadMode` for the global bus */
+  payloadMode?: never;
+}
+
+/**
+ * Options for creating an event bus over its own EventTarget
+ * @template M - The event map
+ */
+export interface IEventBusTargetOptions<M extends TEventMap = TEventMap> {
+  /**
+   * The EventTarget that carries the messages, e.g. `new EventTarget()` for
+   * an isolated in-memory bus
+   */
+  target: EventTarget;
+  /** Validators to register, the event map is inferred from them */
+  validators?: TEventBusValidatorMap<M>;
+  /** How listeners receive payloads, defaults to `'shared'` */
+  payloadMode?: TEventBusPayloadMode;
+}
+
+/**
+ * Options for creating an event bus instance. Settings that belong to the
+ * target, like validators and the payload mode, need a `target` of their own
+ * @template M - The event map
+ */
+export type TEventBusOptions<M extends TEventMap = TEventMap> =
+  | IEventBusGlobalOptions
+  | IEventBusTargetOptions<M>;
+
+/**
+ * Options for adding a listener
+ */
+export interface IEventBusListenerOptions {
+  /**
+   * Listeners with a higher priority run first, listeners with the same
+   * priority run in subscription order. Defaults to 0
+   */
+  priority?: number;
+  /** Removes the listener when the signal is aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for subscribing to a topic, use only one of `throttle`, `debounce`
+ * and `batch`
+ */
+export interface IEventBusSubscribeOptions extends IEventBusListenerOptions {
+  /**
+   * Calls the listener at most once per this many milliseconds, the first
+   * message right away and the latest one at the end of the interval
+   */
+  throttle?: number;
+  /** Calls the listener with the latest message once messages stop for this many milliseconds */
+  debounce?: number;
+  /**
+   * Calls the listener once per animation frame, with the `'latest'` message
+   * or with `'all'` messages of the frame as an array
+   */
+  batch?: 'latest' | 'all';
+}
+
+/**
+ * Message a listener receives with the given subscribe options, the messages
+ * of a frame as an array with `batch: 'all'`
+ * @template T - The type of the message payload
+ * @template O - The subscribe options
+ */
+export type TEventBusSubscribedMessage<
+  T,
+  O extends IEventBusSubscribeOptions,
+> = O extends { batch: 'all' } ? T[] : T;
+
+/**
+ * Controls the delivery of a message, passed to every listener. Only calls made
+ * while the listeners run have an effect, rate limited listeners run after the
+ * delivery and get the control of the last message they receive
+ */
+export interface IEventBusDispatchControl {
+  /** The topic the message was dispatched on */
+  readonly topic: string;
+  /** Whether a listener called `preventDefault` */
+  readonly defaultPrevented: boolean;
+  /** Skips the remaining listeners, including pattern subscriptions */
+  stopPropagation: () => void;
+  /** Marks the message as cancelled, the dispatch then returns `false` */
+  preventDefault: () => void;
+}
+
+/**
+ * Dispatch passed through the middleware pipeline
+ * @template T - The type of the message payload
+ */
+export interface IEventBusDispatchContext<T = unknown> {
+  /** The topic the message is dispatched on */
+  readonly topic: string;
+  /** The message payload, middleware may replace it */
+  message: T;
+}
+
+/**
+ * Middleware that runs around a dispatch, call `next` to pass the message on
+ * or skip it to drop the message. `next` has to be called synchronously, the
+ * dispatch does not wait for middleware
+ */
+export type TEventBusMiddleware = (
+  context: IEventBusDispatchContext,
+  next: () => void,
+) => void;
+
+/**
+ * Options for adding middleware
+ */
+export interface IEventBusMiddlewareOptions {
+  /** Limit the middleware to these topics or `*` / `**` topic patterns */
+  topics?: string | string[];
+}
+
+/**
+ * Options for awaitable dispatches
+ */
+export interface IEventBusDispatchAsyncOptions {
+  /** Reject with a `TimeoutError` when the listeners do not settle in time */
+  timeout?: number;
+}
+
+/**
+ * Outcome of an awaitable dispatch
+ */
+export interface IEventBusDispatchResult {
+  /**
+   * Number of listeners that received the message, rate limited listeners are
+   * not counted
+   */
+  listenerCount: number;
+  /** Settled result of every listener, in call order */
+  results: PromiseSettledResult<unknown>[];
+  /** Errors thrown or rejected by the listeners */
+  errors: unknown[];
+  /** Whether a listener called `preventDefault` */
+  defaultPrevented: boolean;
+}
+
+/**
+ * Describes the listener call that failed
+ * @template T - The type of the message payload
+ */
+export interface IEventBusErrorContext<T = unknown> {
+  /** The topic the message was dispatched on */
+  topic: string;
+  /** The message the listener failed on */
+  message: T;
+  /** The listener that failed */
+  listener: CallableFunction;
+}
+
+/**
+ * Message re-emitted on the error topic when a listener fails
+ */
+export interface IEventBusErrorMessage extends IEventBusErrorContext {
+  /** The thrown error or rejection reason */
+  error: unknown;
+}
+
+/**
+ * Handles an error thrown by a listener or a rejected async listener
+ */
+export type TEventBusErrorHandler = (
+  error: unknown,
+  context: IEventBusErrorContext,
+) => void;
+
+/**
+ * Options for handling listener errors
+ */
+export interface IEventBusErrorHandlingOptions {
+  /** Called for every listener error */
+  onError?: TEventBusErrorHandler;
+  /** Re-emit failures as `IEventBusErrorMessage` on this topic */
+  errorTopic?: string;
+  /**
+   * Throw listener errors from the dispatch once every listener ran, e.g. in
+   * tests. Rejections of async listeners become unhandled rejections
+   */
+  rethrow?: boolean;
+}
+
+/**
+ * Request payload and response types of a request/response topic
+ * @template P - The type of the request payload
+ * @template R - The type of the response
+ */
+export interface IEventBusRequestSpec<P = unknown, R = unknown> {
+  request: P;
+  response: R;
+}
+
+/**
+ * Options for sending a request
+ */
+export interface IEventBusRequestOptions {
+  /** Reject with a `TimeoutError` after this many milliseconds, defaults to 5000 */
+  timeout?: number;
+  /** Reject with the abort reason when the signal is aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Answers a request, synchronously or asynchronously
+ * @template P - The type of the request payload
+ * @template R - The type of the response
+ */
+export type TEventBusResponder<P = unknown, R = unknown> = (
+  payload: P,
+) => R | Promise<R>;
+
+/**
+ * Options for sticky topics
+ */
+export interface IEventBusStickyOptions {
+  /** Number of messages to retain and replay, 0 turns sticky mode off */
+  size?: number;
+}
+
+/**
+ * Options for recording the dispatch history
+ */
+export interface IEventBusHistoryOptions {
+  /** Number of recent dispatches to keep, 0 turns recording off. Defaults to 100 */
+  size?: number;
+}
+
+/**
+ * A recorded dispatch
+ * @template T - The type of the message payload
+ */
+export interface IEventBusHistoryEntry<T = unknown>
+  extends IEventBusEnvelope<T> {
+  /** When the message was dispatched, in milliseconds since the epoch */
+  timestamp: number;
+}
+
+/**
+ * Subscriptions of a topic or topic pattern
+ */
+export interface IEventBusTopicInfo {
+  /** The topic, or the pattern of pattern subscriptions */
+  topic: string;
+  /** Number of active subscriptions */
+  subscriberCount: number;
+}
+
+/**
+ * Snapshot of the state of a bus, for debugging
+ */
+export interface IEventBusInspection {
+  /** Topics with at least one subscriber */
+  topics: IEventBusTopicInfo[];
+  /** Topic patterns with at least one subscriber */
+  patterns: IEventBusTopicInfo[];
+  /** Topics in sticky mode */
+  stickyTopics: string[];
+  /** Number of middleware */
+  middlewareCount: number;
+  /** Number of dispatches the history keeps, 0 when it is not recorded */
+  historySize: number;
+}
+
+/**
+ * Options for waiting on the next message of a topic
+ * @template T - The type of the message payload
+ */
+export interface IEventBusWaitForOptions<T = unknown> {
+  /** Only resolve for messages that pass the filter */
+  filter?: (message: T) => boolean;
+  /** Reject with a `TimeoutError` after this many milliseconds */
+  timeout?: number;
+  /** Reject with the abort reason when the signal is aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Untyped event bus bound to a single EventTarget
+ */
+export interface IEventBusCore {
+  /**
+   * Dispatches a message to all listeners of the topic, returns `false` when
+   * a listener cancelled it
+   */
+  dispatch: <M>(topic: string, message: M) => boolean;
+  /** Dispatches a message and waits for every listener to finish */
+  dispatchAsync: <M>(
+    topic: string,
+    message: M,
+    options?: IEventBusDispatchAsyncOptions,
+  ) => Promise<IEventBusDispatchResult>;
+  /** Subscribes to a topic, returns an unsubscribe function */
+  subscribe: <M>(
+    topic: string,
+    listener: TEventBusListener<M>,
+    options?: IEventBusSubscribeOptions,
+  ) => TEventBusUnsubscribe;
+  /** Subscribes to the next message of a topic only */
+  once: <M>(
+    topic: string,
+    listener: TEventBusListener<M>,
+    options?: IEventBusListenerOptions,
+  ) => TEventBusUnsubscribe;
+  /** Resolves with the next matching message of a topic */
+  waitFor: <M>(
+    topic: string,
+    options?: IEventBusWaitForOptions<M>,
+  ) => Promise<M>;
+  /** Subscribes to every topic matching a `*` / `**` pattern */
+  subscribePattern: <M>(
+    pattern: string,
+    listener: TEventBusListener<IEventBusEnvelope<M>>,
+    options?: IEventBusListenerOptions,
+  ) => TEventBusUnsubscribe;
+  /** Subscribes to every topic */
+  subscribeAll: <M>(
+    listener: TEventBusListener<IEventBusEnvelope<M>>,
+    options?: IEventBusListenerOptions,
+  ) => TEventBusUnsubscribe;
+  /** Sends a request and resolves with the first response */
+  request: <P, R>(
+    topic: string,
+    payload: P,
+    options?: IEventBusRequestOptions,
+  ) => Promise<R>;
+  /** Answers the requests sent on a topic */
+  respond: <P, R>(
+    topic: string,
+    handler: TEventBusResponder<P, R>,
+  ) => TEventBusUnsubscribe;
+  /** Adds middleware that runs around every dispatch */
+  addMiddleware: (
+    middleware: TEventBusMiddleware,
+    options?: IEventBusMiddlewareOptions,
+  ) => TEventBusUnsubscribe;
+  /** Configures how listener errors are handled, no options restores the default */
+  setErrorHandling: (options?: IEventBusErrorHandlingOptions) => void;
+  /** Retains the last messages of a topic and replays them to new subscribers */
+  setSticky: (topic: string, options?: IEventBusStickyOptions) => void;
+  /** Returns the retained messages of a sticky topic, oldest first */
+  getRetained: <M>(topic: string) => M[];
+  /** Clears the retained messages of a topic, or of every topic */
+  clearRetained: (topic?: string) => void;
+  /** Returns the control of the message the listeners are currently handling */
+  currentDispatch: () => IEventBusDispatchControl | undefined;
+  /** Lists the active topics, patterns and sticky topics */
+  inspect: () => IEventBusInspection;
+  /** Records the recent dispatches, a size of 0 stops recording */
+  setHistory: (options?: IEventBusHistoryOptions) => void;
+  /** Returns the recorded dispatches, oldest first */
+  getHistory: <M>() => IEventBusHistoryEntry<M>[];
+  /** Clears the recorded dispatches */
+  clearHistory: () => void;
+  /** Serializes the recorded dispatches to JSON */
+  exportHistory: () => string;
+  /** Dispatches recorded or exported messages again, in order */
+  replayHistory: (history: string | IEventBusHistoryEntry[]) => void;
+  /** Validates the messages of a topic, no validator removes it */
+  setValidator: <M>(
+    topic: string,
+    validator?: TEventBusValidator<M>,
+    options?: IEventBusValidatorOptions,
+  ) => void;
+  /** Turns validation on or off, e.g. off in production builds */
+  setValidationEnabled: (enabled: boolean) => void;
+  /**
+   * Sets how listeners receive payloads, for the bus or one topic. No mode
+   * restores the default: `'shared'` for the bus, the bus mode for a topic
+   */
+  setPayloadMode: (
+    mode?: TEventBusPayloadMode,
+    options?: IEventBusPayloadModeOptions,
+  ) => void;
+  /**
+   * Turns the warning for listeners that mutate shared payloads on or off,
+   * off by default
+   */
+  setMutationWarnings: (enabled: boolean) => void;
+}
+
+/**
+ * Map of topic names to their message payload types
+ * @example
+ * ```ts
+ * type AppEvents = {
+ *   'user-updated': { id: number; name: string };
+ *   'logout': undefined;
+ * };
+ * ```
+ */
+export type TEventMap = Record<string, unknown>;
+
+/**
+ * Union of the topic names declared in an event map
+ * @template M - The event map
+ */
+export type TEventMapTopic<M extends TEventMap> = Extract<keyof M, string>;
+
+/**
+ * Message argument tuple for a topic, the message is optional for `void` and
+ * `undefined` topics
+ * @template M - The event map
+ * @template K - The topic name
+ */
+export type TEventMapMessageArgs<
+  M extends TEventMap,
+  K extends TEventMapTopic<M>,
+  // biome-ignore lint/suspicious/noConfusingVoidType: void marks topics without a payload
+> = [M[K]] extends [void] ? [message?: M[K]] : [message: M[K]];
+
+/**
+ * Map of request topic names to their request payload and response types
+ * @example
+ * ```ts
+ * type AppRequests = {
+ *   'get-user': IEventBusRequestSpec<{ id: number }, IUser>;
+ * };
+ * ```
+ */
+export type TEventRequestMap = Record<string, IEventBusRequestSpec>;
+
+/**
+ * Union of the request topic names declared in a request map
+ * @template R - The request map
+ */
+export type TEventRequestTopic<R extends TEventRequestMap> = Extract<
+  keyof R,
+  string
+>;
+
+/**
+ * Union of the `{ topic, message }` envelopes of an event map
+ * @template M - The event map
+ */
+export type TEventMapEnvelope<M extends TEventMap> = {
+  [K in TEventMapTopic<M>]: { topic: K; message: M[K] };
+}[TEventMapTopic<M>];
+
+/**
+ * Event bus bound to an event map, the message type is inferred from the topic
+ * @template M - The event map
+ * @template R - The request map
+ */
+export interface IEventBusInstance<
+  M extends TEventMap,
+  R extends TEventRequestMap = TEventRequestMap,
+> {
+  /**
+   * Dispatches a message to all listeners of the topic, returns `false` when
+   * a listener cancelled it
+   */
+  dispatch: <K extends TEventMapTopic<M>>(
+    topic: K,
+    ...args: TEventMapMessageArgs<M, K>
+  ) => boolean;
+  /** Dispatches a message and waits for every listener to finish */
+  dispatchAsync: <K extends TEventMapTopic<M>>(
+    topic: K,
+    message: M[K],
+    options?: IEventBusDispatchAsyncOptions,
+  ) => Promise<IEventBusDispatchResult>;
+  /** Subscribes to a topic, returns an unsubscribe function */
+  subscribe: <
+    K extends TEventMapTopic<M>,
+    O extends IEventBusSubscribeOptions = IEventBusSubscribeOptions,
+  >(
+    topic: K,
+    listener: TEventBusListener<TEventBusSubscribedMessage<M[K], O>>,
+    options?: O,
+  ) => TEventBusUnsubscribe;
+  /** Subscribes to the next message of a topic only */
+  once: <K extends TEventMapTopic<M>>(
+    topic: K,
+    listener: TEventBusListener<M[K]>,
+    options?: IEventBusListenerOptions,
+  ) => TEventBusUnsubscribe;
+  /** Resolves with the next matching message of a topic */
+  waitFor: <K extends TEventMapTopic<M>>(
+    topic: K,
+    options?: IEventBusWaitForOptions<M[K]>,
+  ) => Promise<M[K]>;
+  /** Subscribes to every topic matching a `*` / `**` pattern */
+  subscribePattern: (
+    pattern: string,
+    listener: TEventBusListener<TEventMapEnvelope<M>>,
+    options?: IEventBusListenerOptions,
+  ) => TEventBusUnsubscribe;
+  /** Subscribes to every topic */
+  subscribeAll: (
+    listener: TEventBusListener<TEventMapEnvelope<M>>,
+    options?: IEventBusListenerOptions,
+  ) => TEventBusUnsubscribe;
+  /** Sends a request and resolves with the first response */
+  request: <K extends TEventRequestTopic<R>>(
+    topic: K,
+    payload: R[K]['request'],
+    options?: IEventBusRequestOptions,
+  ) => Promise<R[K]['response']>;
+  /** Answers the requests sent on a topic */
+  respond: <K extends TEventRequestTopic<R>>(
+    topic: K,
+    handler: TEventBusResponder<R[K]['request'], R[K]['response']>,
+  ) => TEventBusUnsubscribe;
+  /** Adds middleware that runs around every dispatch */
+  addMiddleware: (
+    middleware: TEventBusMiddleware,
+    options?: IEventBusMiddlewareOptions,
+  ) => TEventBusUnsubscribe;
+  /** Configures how listener errors are handled, no options restores the default */
+  setErrorHandling: (options?: IEventBusErrorHandlingOptions) => void;
+  /** Retains the last messages of a topic and replays them to new subscribers */
+  setSticky: (
+    topic: TEventMapTopic<M>,
+    options?: IEventBusStickyOptions,
+  ) => void;
+  /** Returns the retained messages of a sticky topic, oldest first */
+  getRetained: <K extends TEventMapTopic<M>>(topic: K) => M[K][];
+  /** Clears the retained messages of a topic, or of every topic */
+  clearRetained: (topic?: TEventMapTopic<M>) => void;
+  /** Returns the control of the message the listeners are currently handling */
+  currentDispatch: () => IEventBusDispatchControl | undefined;
+  /** Lists the active topics, patterns and sticky topics */
+  inspect: () => IEventBusInspection;
+  /** Records the recent dispatches, a size of 0 stops recording */
+  setHistory: (options?: IEventBusHistoryOptions) => void;
+  /** Returns the recorded dispatches, oldest first */
+  getHistory: () => (TEventMapEnvelope<M> & { timestamp: number })[];
+  /** Clears the recorded dispatches */
+  clearHistory: () => void;
+  /** Serializes the recorded dispatches to JSON */
+  exportHistory: () => string;
+  /** Dispatches recorded or exported messages again, in order */
+  replayHistory: (history: string | IEventBusHistoryEntry[]) => void;
+  /** Validates the messages of a topic, no validator removes it */
+  setValidator: <K extends TEventMapTopic<M>>(
+    topic: K,
+    validator?: TEventBusValidator<M[K]>,
+    options?: IEventBusValidatorOptions,
+  ) => void;
+  /** Turns validation on or off, e.g. off in production builds */
+  setValidationEnabled: (enabled: boolean) => void;
+  /**
+   * Sets how listeners receive payloads, for the bus or one topic. No mode
+   * restores the default: `'shared'` for the bus, the bus mode for a topic
+   */
+  setPayloadMode: (
+    mode?: TEventBusPayloadMode,
+    options?: IEventBusPayloadModeOptions<TEventMapTopic<M>>,
+  ) => void;
+  /** Turns the warning for listeners that mutate shared payloads on or off */
+  setMutationWarnings: (enabled: boolean) => void;
+  /** React hook that subscribes to a topic for the lifetime of the component */
+  useEventBus: <
+    K extends TEventMapTopic<M>,
+    O extends IEventBusSubscribeOptions = IEventBusSubscribeOptions,
+  >(
+    topic: K,
+    listener: TEventBusListener<TEventBusSubscribedMessage<M[K], O>>,
+    deps?: DependencyList,
+    options?: O,
+  ) => void;
+  /** React hook that returns the last message of a topic as state */
+  useBusValue: <K extends TEventMapTopic<M>>(topic: K, initial: M[K]) => M[K];
+}
+
+/**
+ * Options for a mock bus in tests
+ */
+export interface IEventBusMockOptions {
+  /** The EventTarget of the bus to record, defaults to the global bus */
+  target?: EventTarget;
+}
+
+/**
+ * Bus for tests that records every dispatch with its plain topic name
+ */
+export interface IEventBusMock {
+  /** The recorded bus, pass its target to a `BusProvider` */
+  bus: IEventBusCore;
+  /** The EventTarget of the recorded bus */
+  target: EventTarget;
+  /** Returns the recorded dispatches, oldest first */
+  getDispatches: () => IEventBusHistoryEntry[];
+  /** Returns the recorded messages of a topic, oldest first */
+  getMessages: <M>(topic: string) => M[];
+  /**
+   * Throws when no message was dispatched on the topic, or none matches the
+   * partial message. Objects match when their listed keys match, recursively
+   */
+  expectDispatched: (topic: string, partialMessage?: unknown) => void;
+  /** Throws when a message was dispatched on the topic */
+  expectNotDispatched: (topic: string) => void;
+  /** Delivers an incoming message to the listeners without recording it */
+  simulate: <M>(topic: string, message: M) => boolean;
+  /** Clears the recorded dispatches */
+  reset: () => void;
+  /** Stops recording */
+  restore: () => void;
+}
+
+/**
+ * Props of the provider that scopes a bus to a React subtree
+ */
+export interface IBusProviderProps {
+  /**
+   * The EventTarget of the scoped bus, share it with `createEventBus` to talk
+   * to the subtree from outside of React. Defaults to a new EventTarget per
+   * provider
+   */
+  target?: EventTarget;
+  children?: ReactNode;
+}
+
+/**
+ * A connection between a bus and another context
+ */
+export interface IEventBusBridge {
+  /** Id of this side of the bridge, sent along with every message */
+  id: string;
+  /** Stops forwarding and receiving messages */
+  close: () => void;
+}
+
+/**
+ * Options for bridging a bus to other tabs over BroadcastChannel
+ */
+export interface IEventBusBroadcastBridgeOptions {
+  /** Topics and `*` / `**` topic patterns to forward */
+  topics: string[];
+  /** Name of the BroadcastChannel, tabs only talk to the same channel name */
+  channelName?: string;
+  /** The EventTarget of the bus to bridge, defaults to the global bus */
+  target?: EventTarget;
+}
+
+/**
+ * The other side of a postMessage bridge: a MessagePort, a Worker, the worker
+ * scope (`self`) or a window such as `iframe.contentWindow` or `window.parent`
+ */
+export type TEventBusMessageEndpoint = MessagePort | Worker | Window;
+
+/**
+ * Options for bridging a bus over postMessage
+ */
+export interface IEventBusPostMessageBridgeOptions {
+  /** The other side of the bridge */
+  endpoint: TEventBusMessageEndpoint;
+  /** Topics and `*` / `**` topic patterns sent to the other side */
+  sendTopics?: string[];
+  /** Topics and `*` / `**` topic patterns accepted from the other side */
+  receiveTopics?: string[];
+  /**
+   * Origins accepted from window endpoints, `'*'` accepts any origin.
+   * Defaults to the page's own origin
+   */
+  allowedOrigins?: string[];
+  /** Origin used when posting to a window endpoint, defaults to the first allowed origin */
+  targetOrigin?: string;
+  /** The EventTarget of the bus to bridge, defaults to the global bus */
+  target?: EventTarget;
+}
@@ -0,0 +1,28 @@
+import { useScopedBus } from './BusProvider';
+
+import type { IEventBus } from './types';
+
+/**
+ * React hook that returns a dispatcher bound to the nearest `BusProvider`,
+ * or to the global bus outside of any provider
+ *
+ * The dispatcher is stable for the lifetime of the scope and returns `false`
+ * when a listener cancelled the message, like `busDispatch`.
+ *
+ * @template T - The type of the message payload
+ * @returns The dispatch function of the scoped bus
+ *
+ * @example
+ * ```tsx
+ * const SaveButton = () => {
+ *   const dispatch = useBusDispatch<IEventBus<{ id: number }>>();
+ *   return <button onClick={() => dispatch('save', { id: 1 })}>Save</button>;
+ * };
+ * ```
+ */
+export const useBusDispatch = <T extends IEventBus = IEventBus>(): ((
+  topic: T['topic'],
+  message: T['message'],
+) => boolean) => {
+  return useScopedBus().dispatch;
+};
@@ -0,0 +1,87 @@
+import {
+  useMemo,
+  useRef,
+  useSyncExternalStore,
+} from 'react';
+
+import { useScopedBus } from './BusProvider';
+
+import type {
+  IEventBus,
+  TEventBusListener,
+  TEventBusUnsubscribe,
+} from './types';
+
+/**
+ * Internal hook that exposes the last message of a topic as an external store
+ * @param subscribe - The subscribe function of the bus to listen on
+ * @param getRetained - The getRetained function of the same bus
+ */
+export const useBusStore = <K extends string, M>(
+  subscribe: (topic: K, listener: TEventBusListener<M>) => TEventBusUnsubscribe,
+  getRetained: (topic: K) => M[],
+  topic: K,
+  initial: M,
+): M => {
+  // The initial value only applies when the store is created for a topic
+  const initialRef = useRef(initial);
+  initialRef.current = initial;
+
+  const store = useMemo(() => {
+    const retained = topic ? getRetained(topic) : [];
+    let value = retained.length
+      ? retained[retained.length - 1]
+      : initialRef.current;
+
+    return {
+      subscribe: (onStoreChange: () => void) => {
+        if (!topic) return () => {};
+        return subscribe(topic, (message) => {
+          value = message;
+          onStoreChange();
+        });
+      },
+      getSnapshot: () => value,
+    };
+  }, [subscribe, getRetained, topic]);
+
+  return useSyncExternalStore(
+    store.subscribe,
+    store.getSnapshot,
+    store.getSnapshot,
+  );
+};
+
+/**
+ * React hook that returns the last message of a topic as state
+ *
+ * Built on `useSyncExternalStore`, so every component reads the same message
+ * during concurrent rendering. Sticky topics start with their last retained
+ * message, other topics with `initial` until the next message arrives. Uses
+ * the bus of the nearest `BusProvider`, or the global bus.
+ *
+ * @template T - The type of the message payload
+ * @param topic - The topic/channel to read
+ * @param initial - The value until the first message arrives
+ * @returns The last message of the topic, or `initial`
+ *
+ * @example
+ * ```tsx
+ * const Theme = () => {
+ *   const theme = useBusValue<IEventBus<'light' | 'dark'>>('theme-changed', 'light');
+ *   return <div className={theme} />;
+ * };
+ * ```
+ */
+export const useBusValue = <T extends IEventBus>(
+  topic: T['topic'],
+  initial: T['message'],
+): T['message'] => {
+  const bus = useScopedBus();
+  return useBusStore<T['topic'], T['message']>(
+    bus.subscribe,
+    bus.getRetained,
+    topic,
+    initial,
+  );
+};
@@ -1,22 +1,109 @@
 import {
   type DependencyList,
   useEffect,
+  useLayoutEffect,
+  useRef,
 } from 'react';
 
-import { busSubscribe } from './eventBus';
+import { isBrowser } from '../dom';
+import { useScopedBus } from './BusProvider';
 
 import type {
   IEventBus,
+  IEventBusSubscribeOptions,
   TEventBusListener,
+  TEventBusSubscribedMessage,
+  TEventBusUnsubscribe,
 } from './types';
 
-export const useEventBus = <T extends IEventBus>(
-  topic: T['topic'],
-  listener: TEventBusListener<T['message']>,
+/**
+ * Layout effects warn during server rendering, where effects do not run anyway
+ */
+const useIsomorphicLayoutEffect = isBrowser() ? useLayoutEffect : useEffect;
+
+/**
+ * Internal hook that keeps a subscription alive for the lifetime of the component
+ *
+ * The subscription only changes with the topic, the options or `deps`, and
+ * always calls the listener of the latest render, so inline listeners do not
+ * resubscribe on every render.
+ * @param subscribe - The subscribe function of the bus to listen on
+ */
+export const useBusSubscription = <K extends string, M>(
+  subscribe: (
+    topic: K,
+    listener: TEventBusListener<M>,
+    options?: IEventBusSubscribeOptions,
+  ) => TEventBusUnsubscribe,
+  topic: K,
+  listener: TEventBusListener<M>,
   deps: DependencyList = [],
+  options: IEventBusSubscribeOptions = {},
 ): void => {
+  const {
+    priority,
+    signal,
+    throttle,
+    debounce,
+    batch,
+  } = options;
+  const listenerRef = useRef(listener);
+  const hasListener = typeof listener === 'function';
+
+  useIsomorphicLayoutEffect(() => {
+    listenerRef.current = listener;
+  });
+
   useEffect(() => {
-    if (!topic || typeof listener !== 'function') return;
-    return busSubscribe<T>(topic, listener);
-  }, [topic, listener, ...deps]);
+    if (!topic || !hasListener) return;
+    return subscribe(
+      topic,
+      (message, control) => listenerRef.current(message, control),
+      { priority, signal, throttle, debounce, batch },
+    );
+  }, [
+    subscribe,
+    topic,
+    hasListener,
+    priority,
+    signal,
+    throttle,
+    debounce,
+    batch,
+    ...deps,
+  ]);
+};
+
+/**
+ * React hook that subscribes to a topic for the lifetime of the component
+ *
+ * Uses the bus of the nearest `BusProvider`, or the global bus outside of
+ * any provider.
+ *
+ * @template T - The type of the message payload
+ * @param topic - The topic/channel to subscribe to
+ * @param listener - Called with the message payload, the latest render's listener is used
+ * @param deps - Values that recreate the subscription when they change
+ * @param options - Optional `priority`, abort `signal`, and one of `throttle`,
+ * `debounce` or `batch`, see `busSubscribe`
+ */
+export const useEventBus = <
+  T extends IEventBus,
+  O extends IEventBusSubscribeOptions = IEventBusSubscribeOptions,
+>(
+  topic: T['topic'],
+  listener: TEventBusListener<TEventBusSubscribedMessage<T['message'], O>>,
+  deps: DependencyList = [],
+  options?: O,
+): void => {
+  useBusSubscription<
+    T['topic'],
+    TEventBusSubscribedMessage<T['message'], O>
+  >(
+    useScopedBus().subscribe,
+    topic,
+    listener,
+    deps,
+    options,
+  );
 };
@@ -0,0 +1,60 @@
+import { isObject } from '../../assertion';
+
+const BIGINT_TAG = '__bigint__';
+
+/**
+ * Creates a random id, used for bridge source ids and request correlation ids
+ */
+export const createId = (): string => {
+  if (
+    typeof crypto !== 'undefined' &&
+    typeof crypto.randomUUID === 'function'
+  ) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+};
+
+/**
+ * Serializes a message to JSON, BigInt values are tagged so they survive the
+ * round trip instead of turning into strings
+ */
+export const serializeMessage = (message: unknown): string | undefined => {
+  return JSON.stringify(message, (_key, value) =>
+    typeof value === 'bigint' ? { [BIGINT_TAG]: value.toString() } : value,
+  );
+};
+
+/**
+ * Deep-freezes the plain objects and arrays of a message in place, other
+ * objects such as Maps, Dates and class instances are left as they are
+ */
+export const freezeMessage = <M>(message: M): M => {
+  if (
+    (isObject(message) || Array.isArray(message)) &&
+    !Object.isFrozen(message)
+  ) {
+    Object.freeze(message);
+    for (const value of Object.values(message)) {
+      freezeMessage(value);
+    }
+  }
+  return message;
+};
+
+/**
+ * Parses a message created by `serializeMessage`
+ */
+export const deserializeMessage = (serialized: string | undefined): unknown => {
+  if (serialized === undefined) return undefined;
+  return JSON.parse(serialized, (_key, value) => {
+    if (
+      isObject(value) &&
+      typeof value[BIGINT_TAG] === 'string' &&
+      Object.keys(value).length === 1
+    ) {
+      return BigInt(value[BIGINT_TAG]);
+    }
+    return value;
+  });
+};